@@ -8,11 +8,31 @@
  * @module
  */
 
+import type * as access from "../access.js";
 import type * as auth from "../auth.js";
 import type * as chests from "../chests.js";
+import type * as crons from "../crons.js";
+import type * as embeds from "../embeds.js";
+import type * as filePreviews from "../filePreviews.js";
+import type * as fileTypes from "../fileTypes.js";
+import type * as format from "../format.js";
 import type * as http from "../http.js";
+import type * as images from "../images.js";
 import type * as items from "../items.js";
+import type * as linkFetcher from "../linkFetcher.js";
+import type * as linkPreviews from "../linkPreviews.js";
+import type * as notifications from "../notifications.js";
+import type * as push from "../push.js";
+import type * as quotas from "../quotas.js";
+import type * as recurrence from "../recurrence.js";
+import type * as reminders from "../reminders.js";
 import type * as router from "../router.js";
+import type * as search from "../search.js";
+import type * as slots from "../slots.js";
+import type * as storage from "../storage.js";
+import type * as tags from "../tags.js";
+import type * as timeZones from "../timeZones.js";
+import type * as uploadPolicy from "../uploadPolicy.js";
 
 import type {
   ApiFromModules,
@@ -21,11 +41,31 @@ import type {
 } from "convex/server";
 
 declare const fullApi: ApiFromModules<{
+  access: typeof access;
   auth: typeof auth;
   chests: typeof chests;
+  crons: typeof crons;
+  embeds: typeof embeds;
+  filePreviews: typeof filePreviews;
+  fileTypes: typeof fileTypes;
+  format: typeof format;
   http: typeof http;
+  images: typeof images;
   items: typeof items;
+  linkFetcher: typeof linkFetcher;
+  linkPreviews: typeof linkPreviews;
+  notifications: typeof notifications;
+  push: typeof push;
+  quotas: typeof quotas;
+  recurrence: typeof recurrence;
+  reminders: typeof reminders;
   router: typeof router;
+  search: typeof search;
+  slots: typeof slots;
+  storage: typeof storage;
+  tags: typeof tags;
+  timeZones: typeof timeZones;
+  uploadPolicy: typeof uploadPolicy;
 }>;
 
 /**
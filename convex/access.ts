@@ -0,0 +1,39 @@
+import { getAuthUserId } from '@convex-dev/auth/server'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+
+// Who is calling and what they may do in a chest, shared by every module
+// with public functions
+
+export async function getLoggedInUser(ctx: QueryCtx | MutationCtx) {
+  const userId = await getAuthUserId(ctx)
+  if (!userId) {
+    throw new Error('User not authenticated')
+  }
+  const user = await ctx.db.get(userId)
+  if (!user) {
+    throw new Error('User not found')
+  }
+  return user
+}
+
+// The chest's owner, their role from chestPermissions, or null without access
+export async function getUserPermission(
+  ctx: QueryCtx | MutationCtx,
+  chestId: Id<'chests'>,
+  userId: Id<'users'>,
+) {
+  const chest = await ctx.db.get(chestId)
+  if (chest?.ownerId === userId) {
+    return 'owner'
+  }
+
+  const permission = await ctx.db
+    .query('chestPermissions')
+    .withIndex('by_chest_and_user', (q) =>
+      q.eq('chestId', chestId).eq('userId', userId),
+    )
+    .first()
+
+  return permission?.role || null
+}
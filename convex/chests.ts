@@ -1,35 +1,13 @@
-import { v } from "convex/values";
-import { query, mutation, QueryCtx, MutationCtx } from "./_generated/server";
-import { getAuthUserId } from "@convex-dev/auth/server";
-import { Id } from "./_generated/dataModel";
-
-async function getLoggedInUser(ctx: QueryCtx | MutationCtx) {
-  const userId = await getAuthUserId(ctx);
-  if (!userId) {
-    throw new Error("User not authenticated");
-  }
-  const user = await ctx.db.get(userId);
-  if (!user) {
-    throw new Error("User not found");
-  }
-  return user;
-}
-
-async function getUserPermission(ctx: QueryCtx | MutationCtx, chestId: Id<"chests">, userId: Id<"users">) {
-  // Check if user is owner
-  const chest = await ctx.db.get(chestId);
-  if (chest?.ownerId === userId) {
-    return "owner";
-  }
-  
-  // Check permissions table
-  const permission = await ctx.db
-    .query("chestPermissions")
-    .withIndex("by_chest_and_user", (q) => q.eq("chestId", chestId).eq("userId", userId))
-    .first();
-  
-  return permission?.role || null;
-}
+import { ConvexError, v } from "convex/values";
+import { mutation, query } from "./_generated/server";
+import { countChestItems, findFreeSlots, getSlotCount, getSlottedItems } from "./slots";
+import { deleteStorageIfUnreferenced } from "./storage";
+import { formatBytes } from "./format";
+import { deleteChestUsage } from "./quotas";
+import { MAX_FILE_SIZE, normalizeAllowedFileTypes } from "./uploadPolicy";
+import { deleteReminders } from "./reminders";
+import { deleteChestTags } from "./tags";
+import { getLoggedInUser, getUserPermission } from "./access";
 
 export const createChest = mutation({
   args: {
@@ -104,6 +82,12 @@ export const updateChest = mutation({
     chestId: v.id("chests"),
     name: v.optional(v.string()),
     description: v.optional(v.string()),
+    // null removes the limit
+    capacity: v.optional(v.union(v.literal(27), v.literal(54), v.null())),
+    stripImageMetadata: v.optional(v.boolean()),
+    // null or an empty list allows any type / the global maximum
+    allowedFileTypes: v.optional(v.union(v.array(v.string()), v.null())),
+    maxFileSize: v.optional(v.union(v.number(), v.null())),
   },
   handler: async (ctx, args) => {
     const user = await getLoggedInUser(ctx);
@@ -116,6 +100,49 @@ export const updateChest = mutation({
     const updates: any = {};
     if (args.name !== undefined) updates.name = args.name;
     if (args.description !== undefined) updates.description = args.description;
+    if (args.stripImageMetadata !== undefined) updates.stripImageMetadata = args.stripImageMetadata;
+    
+    if (args.allowedFileTypes !== undefined) {
+      const allowed = normalizeAllowedFileTypes(args.allowedFileTypes ?? []);
+      updates.allowedFileTypes = allowed.length > 0 ? allowed : undefined;
+    }
+    if (args.maxFileSize !== undefined) {
+      if (args.maxFileSize !== null && (args.maxFileSize <= 0 || args.maxFileSize > MAX_FILE_SIZE)) {
+        throw new ConvexError(
+          `The file size limit must be between 1 byte and ${formatBytes(MAX_FILE_SIZE)}.`
+        );
+      }
+      updates.maxFileSize = args.maxFileSize ?? undefined;
+    }
+    
+    if (args.capacity !== undefined) {
+      const chest = await ctx.db.get(args.chestId);
+      if (!chest) {
+        throw new Error("Chest not found");
+      }
+      updates.capacity = args.capacity ?? undefined;
+      
+      if (args.capacity !== null) {
+        const count = await countChestItems(ctx, args.chestId, args.capacity + 1);
+        if (count > args.capacity) {
+          throw new ConvexError(
+            `"${chest.name}" holds more than ${args.capacity} items. Remove some before shrinking it to ${args.capacity} slots.`
+          );
+        }
+      }
+      
+      // Items in slots past the new grid move into its free slots
+      const oldSlotCount = getSlotCount(chest);
+      const newSlotCount = getSlotCount({ ...chest, capacity: updates.capacity });
+      if (newSlotCount < oldSlotCount) {
+        const overflow = (await getSlottedItems(ctx, args.chestId, oldSlotCount))
+          .filter((item) => item.slot! >= newSlotCount);
+        const freeSlots = await findFreeSlots(ctx, args.chestId, newSlotCount, overflow.length);
+        for (const [index, item] of overflow.entries()) {
+          await ctx.db.patch(item._id, { slot: freeSlots[index] });
+        }
+      }
+    }
     
     await ctx.db.patch(args.chestId, updates);
   },
@@ -147,13 +174,41 @@ export const deleteChest = mutation({
       .withIndex("by_chest", (q) => q.eq("chestId", args.chestId))
       .collect();
     
+    const completions = await ctx.db
+      .query("todoCompletions")
+      .withIndex("by_chest", (q) => q.eq("chestId", args.chestId))
+      .collect();
+    
+    const reminders = await ctx.db
+      .query("reminders")
+      .withIndex("by_chest", (q) => q.eq("chestId", args.chestId))
+      .collect();
+    await deleteReminders(ctx, reminders);
+    
+    const notifications = await ctx.db
+      .query("notifications")
+      .withIndex("by_chest", (q) => q.eq("chestId", args.chestId))
+      .collect();
+    
     // Delete all related records
     await Promise.all([
       ...permissions.map(p => ctx.db.delete(p._id)),
       ...invites.map(i => ctx.db.delete(i._id)),
       ...items.map(i => ctx.db.delete(i._id)),
+      ...completions.map(c => ctx.db.delete(c._id)),
+      ...notifications.map(n => ctx.db.delete(n._id)),
     ]);
     
+    // Then the uploaded files and thumbnails, now that no item in this chest points at them
+    const storageIds = new Set(
+      items.flatMap(i => [i.storageId, i.thumbnailId]).filter(id => id !== undefined)
+    );
+    for (const storageId of storageIds) {
+      await deleteStorageIfUnreferenced(ctx, storageId);
+    }
+    
+    await deleteChestTags(ctx, args.chestId);
+    await deleteChestUsage(ctx, args.chestId);
     await ctx.db.delete(args.chestId);
   },
 });
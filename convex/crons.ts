@@ -0,0 +1,13 @@
+import { cronJobs } from 'convex/server'
+import { internal } from './_generated/api'
+
+const crons = cronJobs()
+
+crons.interval(
+  'sweep orphaned uploads',
+  { hours: 6 },
+  internal.storage.sweepOrphanedFiles,
+  {},
+)
+
+export default crons
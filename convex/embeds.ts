@@ -0,0 +1,195 @@
+// Provider registry shared by the backend (resolving embeds) and the grid (rendering them)
+
+export type EmbedType = 'video' | 'audio' | 'code' | 'social'
+
+type EmbedProvider = {
+  name: string
+  type: EmbedType
+  // Hostnames (and their subdomains) whose pages belong to this provider
+  hosts: Array<string>
+  // Builds the player URL straight from the page URL, when the provider allows it
+  toEmbedUrl?: (url: URL) => string | null
+  // oEmbed endpoint for providers whose player URL can't be derived from the page URL
+  oEmbedEndpoint?: string
+  // Origins we're willing to load in a sandboxed iframe for this provider
+  frameHosts: Array<string>
+}
+
+const PROVIDERS: Array<EmbedProvider> = [
+  {
+    name: 'YouTube',
+    type: 'video',
+    hosts: ['youtube.com', 'youtu.be'],
+    toEmbedUrl: (url) => {
+      const id =
+        url.hostname === 'youtu.be'
+          ? url.pathname.slice(1)
+          : url.searchParams.get('v') ||
+            url.pathname.match(/^\/(?:shorts|embed|live)\/([\w-]+)/)?.[1]
+      return id && /^[\w-]+$/.test(id)
+        ? `https://www.youtube-nocookie.com/embed/${id}`
+        : null
+    },
+    frameHosts: ['www.youtube-nocookie.com'],
+  },
+  {
+    name: 'Vimeo',
+    type: 'video',
+    hosts: ['vimeo.com'],
+    toEmbedUrl: (url) => {
+      const id = url.pathname.match(/^\/(?:video\/)?(\d+)/)?.[1]
+      return id ? `https://player.vimeo.com/video/${id}` : null
+    },
+    frameHosts: ['player.vimeo.com'],
+  },
+  {
+    name: 'Loom',
+    type: 'video',
+    hosts: ['loom.com'],
+    toEmbedUrl: (url) => {
+      const id = url.pathname.match(/^\/share\/(\w+)/)?.[1]
+      return id ? `https://www.loom.com/embed/${id}` : null
+    },
+    frameHosts: ['www.loom.com'],
+  },
+  {
+    name: 'Spotify',
+    type: 'audio',
+    hosts: ['open.spotify.com'],
+    toEmbedUrl: (url) => {
+      const match = url.pathname.match(
+        /^(?:\/intl-[\w-]+)?\/(track|album|playlist|episode|show|artist)\/(\w+)/,
+      )
+      return match
+        ? `https://open.spotify.com/embed/${match[1]}/${match[2]}`
+        : null
+    },
+    frameHosts: ['open.spotify.com'],
+  },
+  {
+    name: 'SoundCloud',
+    type: 'audio',
+    hosts: ['soundcloud.com'],
+    oEmbedEndpoint: 'https://soundcloud.com/oembed',
+    frameHosts: ['w.soundcloud.com'],
+  },
+  {
+    name: 'Mixcloud',
+    type: 'audio',
+    hosts: ['mixcloud.com'],
+    oEmbedEndpoint: 'https://app.mixcloud.com/oembed/',
+    frameHosts: ['player-widget.mixcloud.com', 'www.mixcloud.com'],
+  },
+  {
+    name: 'CodePen',
+    type: 'code',
+    hosts: ['codepen.io'],
+    toEmbedUrl: (url) => {
+      const match = url.pathname.match(/^\/([\w-]+)\/(?:pen|full)\/(\w+)/)
+      return match
+        ? `https://codepen.io/${match[1]}/embed/${match[2]}?default-tab=result`
+        : null
+    },
+    frameHosts: ['codepen.io'],
+  },
+  {
+    name: 'CodeSandbox',
+    type: 'code',
+    hosts: ['codesandbox.io'],
+    toEmbedUrl: (url) => {
+      const id = url.pathname.match(/^\/(?:s|p\/sandbox)\/([\w-]+)/)?.[1]
+      return id ? `https://codesandbox.io/embed/${id}` : null
+    },
+    frameHosts: ['codesandbox.io'],
+  },
+  {
+    // Repos and gists can't be framed; they get a rich card instead
+    name: 'GitHub',
+    type: 'code',
+    hosts: ['github.com', 'gist.github.com'],
+    frameHosts: [],
+  },
+  {
+    name: 'X',
+    type: 'social',
+    hosts: ['twitter.com', 'x.com'],
+    toEmbedUrl: (url) => {
+      const id = url.pathname.match(/^\/\w+\/status\/(\d+)/)?.[1]
+      return id
+        ? `https://platform.twitter.com/embed/Tweet.html?id=${id}&dnt=true`
+        : null
+    },
+    frameHosts: ['platform.twitter.com'],
+  },
+  {
+    name: 'Instagram',
+    type: 'social',
+    hosts: ['instagram.com'],
+    toEmbedUrl: (url) => {
+      const match = url.pathname.match(/^\/(p|reel)\/([\w-]+)/)
+      return match
+        ? `https://www.instagram.com/${match[1]}/${match[2]}/embed`
+        : null
+    },
+    frameHosts: ['www.instagram.com'],
+  },
+  {
+    name: 'TikTok',
+    type: 'video',
+    hosts: ['tiktok.com'],
+    toEmbedUrl: (url) => {
+      const id = url.pathname.match(/^\/@[\w.-]+\/video\/(\d+)/)?.[1]
+      return id ? `https://www.tiktok.com/embed/v2/${id}` : null
+    },
+    frameHosts: ['www.tiktok.com'],
+  },
+]
+
+function parseHttpUrl(rawUrl: string) {
+  try {
+    const url = new URL(rawUrl)
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url : null
+  } catch {
+    return null
+  }
+}
+
+function hostMatches(hostname: string, host: string) {
+  return hostname === host || hostname.endsWith(`.${host}`)
+}
+
+export function findEmbedProvider(rawUrl: string) {
+  const url = parseHttpUrl(rawUrl)
+  if (!url) return null
+
+  return (
+    PROVIDERS.find((provider) =>
+      provider.hosts.some((host) => hostMatches(url.hostname, host)),
+    ) || null
+  )
+}
+
+// Pattern-only resolution, cheap enough to run inside mutations
+export function resolveEmbed(rawUrl: string) {
+  const url = parseHttpUrl(rawUrl)
+  const provider = findEmbedProvider(rawUrl)
+  if (!url || !provider) return null
+
+  return {
+    embedType: provider.type,
+    embedProvider: provider.name,
+    embedUrl: provider.toEmbedUrl?.(url) || undefined,
+  }
+}
+
+// Only https players from the provider's own frame hosts are ever rendered
+export function isTrustedEmbedUrl(provider: string, rawEmbedUrl: string) {
+  const entry = PROVIDERS.find((candidate) => candidate.name === provider)
+  const url = parseHttpUrl(rawEmbedUrl)
+  return (
+    !!entry &&
+    !!url &&
+    url.protocol === 'https:' &&
+    entry.frameHosts.includes(url.hostname)
+  )
+}
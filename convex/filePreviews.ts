@@ -0,0 +1,88 @@
+'use node'
+
+import { v } from 'convex/values'
+import sharp from 'sharp'
+import { getDocumentProxy, renderPageAsImage } from 'unpdf'
+import { internalAction } from './_generated/server'
+import { internal } from './_generated/api'
+import { getFilePreviewKind } from './fileTypes'
+import { THUMBNAIL_SIZE } from './images'
+
+// Only the start of a text file is read; the grid shows a few lines and the
+// detail view a few dozen
+const EXCERPT_BYTES = 8 * 1024
+const EXCERPT_LINES = 40
+
+async function getTextExcerpt(blob: Blob) {
+  const bytes = new Uint8Array(await blob.slice(0, EXCERPT_BYTES).arrayBuffer())
+  // A NUL byte means this isn't text after all
+  if (bytes.includes(0)) return null
+
+  const text = new TextDecoder().decode(bytes)
+  const lines = text.split(/\r?\n/)
+  // Drop the last line when the read cut it off midway
+  if (blob.size > EXCERPT_BYTES && lines.length > 1) lines.pop()
+  return lines.slice(0, EXCERPT_LINES).join('\n').trimEnd()
+}
+
+async function getPdfPreview(blob: Blob) {
+  const data = new Uint8Array(await blob.arrayBuffer())
+  const pdf = await getDocumentProxy(data)
+  try {
+    const page = await renderPageAsImage(pdf, 1, {
+      canvasImport: () => import('@napi-rs/canvas'),
+      width: THUMBNAIL_SIZE,
+    })
+    const thumbnail = await sharp(Buffer.from(page))
+      .flatten({ background: '#ffffff' })
+      .webp({ quality: 75 })
+      .toBuffer()
+    return { pageCount: pdf.numPages, thumbnail }
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+// Runs after a file item is added. PDFs get a first-page thumbnail and page
+// count, text files an excerpt; audio and video play from the file itself.
+export const processFile = internalAction({
+  args: {
+    itemId: v.id('items'),
+    storageId: v.id('_storage'),
+    mimeType: v.optional(v.string()),
+    filename: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const kind = getFilePreviewKind(args.mimeType, args.filename)
+    if (kind !== 'pdf' && kind !== 'text') return
+
+    const blob = await ctx.storage.get(args.storageId)
+    if (!blob) return
+
+    try {
+      if (kind === 'text') {
+        const textExcerpt = await getTextExcerpt(blob)
+        if (textExcerpt === null) return
+        await ctx.runMutation(internal.items.saveFilePreview, {
+          itemId: args.itemId,
+          storageId: args.storageId,
+          textExcerpt,
+        })
+        return
+      }
+
+      const { pageCount, thumbnail } = await getPdfPreview(blob)
+      const thumbnailId = await ctx.storage.store(
+        new Blob([new Uint8Array(thumbnail)], { type: 'image/webp' }),
+      )
+      await ctx.runMutation(internal.items.saveFilePreview, {
+        itemId: args.itemId,
+        storageId: args.storageId,
+        thumbnailId,
+        pageCount,
+      })
+    } catch (error) {
+      console.error('Failed to preview file:', error)
+    }
+  },
+})
@@ -0,0 +1,73 @@
+// How a stored file gets previewed, from its mimeType. Shared by the
+// preview action and the grid, so both agree on what a file shows.
+
+export type FilePreviewKind = 'pdf' | 'text' | 'audio' | 'video'
+
+// Source files often arrive with an empty or generic mimeType, so for text
+// the extension is checked too. Values are highlight.js language names.
+const CODE_EXTENSIONS: Record<string, string> = {
+  c: 'c',
+  cpp: 'cpp',
+  cs: 'csharp',
+  css: 'css',
+  go: 'go',
+  h: 'c',
+  html: 'xml',
+  java: 'java',
+  js: 'javascript',
+  json: 'json',
+  jsx: 'javascript',
+  kt: 'kotlin',
+  md: 'markdown',
+  php: 'php',
+  py: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  sh: 'bash',
+  sql: 'sql',
+  swift: 'swift',
+  toml: 'ini',
+  ts: 'typescript',
+  tsx: 'typescript',
+  xml: 'xml',
+  yaml: 'yaml',
+  yml: 'yaml',
+}
+
+const TEXT_MIME_TYPES = new Set([
+  'application/json',
+  'application/javascript',
+  'application/typescript',
+  'application/xml',
+  'application/x-yaml',
+  'application/x-sh',
+  'application/sql',
+])
+
+function getExtension(filename?: string) {
+  const match = filename?.toLowerCase().match(/\.([a-z0-9]+)$/)
+  return match?.[1]
+}
+
+export function getFilePreviewKind(
+  mimeType?: string,
+  filename?: string,
+): FilePreviewKind | null {
+  const type = mimeType?.toLowerCase().split(';')[0].trim() || ''
+  if (type === 'application/pdf') return 'pdf'
+  if (type.startsWith('audio/')) return 'audio'
+  if (type.startsWith('video/')) return 'video'
+  if (type.startsWith('text/') || TEXT_MIME_TYPES.has(type)) return 'text'
+
+  const extension = getExtension(filename)
+  if (extension && extension in CODE_EXTENSIONS) return 'text'
+  if (extension === 'txt' || extension === 'log' || extension === 'csv') {
+    return 'text'
+  }
+  return null
+}
+
+export function getCodeLanguage(filename?: string) {
+  const extension = getExtension(filename)
+  return extension ? CODE_EXTENSIONS[extension] : undefined
+}
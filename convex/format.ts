@@ -0,0 +1,13 @@
+// Shared by the quota and upload errors and the usage bars, so sizes read the
+// same on both sides
+
+const KB = 1024
+const MB = 1024 * KB
+const GB = 1024 * MB
+
+export function formatBytes(bytes: number) {
+  if (bytes < KB) return `${bytes} B`
+  if (bytes < MB) return `${(bytes / KB).toFixed(1)} KB`
+  if (bytes < GB) return `${(bytes / MB).toFixed(1)} MB`
+  return `${(bytes / GB).toFixed(1)} GB`
+}
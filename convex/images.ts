@@ -0,0 +1,143 @@
+'use node'
+
+import { v } from 'convex/values'
+import sharp from 'sharp'
+import { encode } from 'blurhash'
+import exifReader from 'exif-reader'
+import { internalAction } from './_generated/server'
+import { internal } from './_generated/api'
+import { toTimestamp } from './timeZones'
+import type { Id } from './_generated/dataModel'
+
+export const THUMBNAIL_SIZE = 480
+const BLURHASH_SIZE = 32
+// Formats re-encoded as themselves when stripped; anything else becomes JPEG
+const STRIP_FORMATS = new Set(['jpeg', 'png', 'webp', 'avif'])
+
+function toHex({ r, g, b }: { r: number; g: number; b: number }) {
+  return `#${[r, g, b].map((value) => value.toString(16).padStart(2, '0')).join('')}`
+}
+
+// EXIF dates carry no zone; OffsetTimeOriginal says how far from UTC the
+// camera clock was, when it was recorded. Without it the camera is assumed to
+// have been set to the uploader's zone, and without that the date is skipped.
+function getCaptureDate(exif: Buffer | undefined, timeZone?: string) {
+  if (!exif) return undefined
+  try {
+    const { Photo } = exifReader(exif)
+    // exif-reader reads the camera's wall-clock time as if it were UTC
+    const taken = Photo?.DateTimeOriginal
+    if (!taken || isNaN(taken.getTime())) return undefined
+
+    const offset = Photo.OffsetTimeOriginal?.match(/^([+-])(\d{2}):(\d{2})$/)
+    if (!offset) {
+      if (!timeZone) return undefined
+      const wallClock = toTimestamp(
+        {
+          year: taken.getUTCFullYear(),
+          month: taken.getUTCMonth() + 1,
+          day: taken.getUTCDate(),
+        },
+        { hour: taken.getUTCHours(), minute: taken.getUTCMinutes() },
+        timeZone,
+      )
+      return wallClock + taken.getUTCSeconds() * 1000
+    }
+    const minutes =
+      (Number(offset[2]) * 60 + Number(offset[3])) *
+      (offset[1] === '-' ? -1 : 1)
+    return taken.getTime() - minutes * 60 * 1000
+  } catch {
+    return undefined
+  }
+}
+
+// Runs after an image item is added: thumbnail, dimensions, dominant colour
+// and a blurhash placeholder for the grid. When the chest asks for it, the
+// stored file is also replaced by a copy without EXIF, XMP or IPTC data, with
+// the orientation applied to the pixels so nothing depends on the tag.
+export const processImage = internalAction({
+  args: {
+    itemId: v.id('items'),
+    storageId: v.id('_storage'),
+    stripMetadata: v.boolean(),
+    // The uploader's IANA zone, for capture dates recorded without an offset
+    timeZone: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const blob = await ctx.storage.get(args.storageId)
+    if (!blob) return
+
+    try {
+      const input = Buffer.from(await blob.arrayBuffer())
+      const image = sharp(input, { failOn: 'none' }).autoOrient()
+      const metadata = await image.metadata()
+      const { width, height } = metadata.autoOrient
+
+      let stripped: { storageId: Id<'_storage'>; mimeType: string } | undefined
+      if (
+        args.stripMetadata &&
+        (metadata.exif || metadata.xmp || metadata.iptc)
+      ) {
+        const format = STRIP_FORMATS.has(metadata.format)
+          ? metadata.format
+          : 'jpeg'
+        // sharp drops all metadata on output unless asked to keep it
+        const clean = await image
+          .clone()
+          .keepIccProfile()
+          .toFormat(format, format === 'jpeg' ? { quality: 90 } : {})
+          .toBuffer()
+        const mimeType = `image/${format}`
+        stripped = {
+          storageId: await ctx.storage.store(
+            new Blob([new Uint8Array(clean)], { type: mimeType }),
+          ),
+          mimeType,
+        }
+      }
+
+      const thumbnail = await image
+        .clone()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .webp({ quality: 75 })
+        .toBuffer()
+
+      const { dominant } = await image.clone().stats()
+
+      const { data: pixels, info: small } = await image
+        .clone()
+        .resize(BLURHASH_SIZE, BLURHASH_SIZE, { fit: 'inside' })
+        .ensureAlpha()
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+
+      const thumbnailId = await ctx.storage.store(
+        new Blob([new Uint8Array(thumbnail)], { type: 'image/webp' }),
+      )
+
+      await ctx.runMutation(internal.items.saveImageMetadata, {
+        itemId: args.itemId,
+        storageId: args.storageId,
+        stripped,
+        capturedAt: getCaptureDate(metadata.exif, args.timeZone),
+        thumbnailId,
+        width,
+        height,
+        dominantColor: toHex(dominant),
+        blurhash: encode(
+          new Uint8ClampedArray(pixels),
+          small.width,
+          small.height,
+          4,
+          3,
+        ),
+      })
+    } catch (error) {
+      console.error('Failed to process image:', error)
+    }
+  },
+})
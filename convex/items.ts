@@ -1,84 +1,451 @@
-import { v } from 'convex/values'
+import { ConvexError, v } from 'convex/values'
+import { paginationOptsValidator } from 'convex/server'
+import { internalMutation, mutation, query } from './_generated/server'
+import { internal } from './_generated/api'
+import { buildSearchText, getSearchSnippet } from './search'
+import { getCachedPreview, isPreviewFresh, normalizeUrl } from './linkPreviews'
+import { resolveEmbed } from './embeds'
 import {
-  query,
-  action,
-  mutation,
-  QueryCtx,
-  MutationCtx,
-} from './_generated/server'
-import { getAuthUserId } from '@convex-dev/auth/server'
-import { Id } from './_generated/dataModel'
-
-async function getLoggedInUser(ctx: QueryCtx | MutationCtx) {
-  const userId = await getAuthUserId(ctx)
-  if (!userId) {
-    throw new Error('User not authenticated')
-  }
-  const user = await ctx.db.get(userId)
-  if (!user) {
-    throw new Error('User not found')
+  assertChestHasRoom,
+  findFreeSlots,
+  getSlotCount,
+  getSlottedItems,
+} from './slots'
+import { deleteStorageIfUnreferenced } from './storage'
+import {
+  adjustChestStorage,
+  adjustChestUsage,
+  assertStorageQuota,
+} from './quotas'
+import { assertUploadAllowed } from './uploadPolicy'
+import {
+  advanceRecurrence,
+  normalizeRecurrence,
+  repinRecurrence,
+} from './recurrence'
+import { isValidTimeZone } from './timeZones'
+import {
+  copyItemReminders,
+  deleteItemReminders,
+  rescheduleItemReminders,
+} from './reminders'
+import { adjustChestTags, getChestTagNames } from './tags'
+import { getLoggedInUser, getUserPermission } from './access'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import type { DataModel, Doc, Id } from './_generated/dataModel'
+import type { NamedTableInfo, OrderedQuery } from 'convex/server'
+import type { Infer } from 'convex/values'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MAX_CHECKLIST_ENTRIES = 100
+
+// Filter state shared by every item list (mirrors FilterBar)
+const itemFiltersValidator = v.object({
+  type: v.union(
+    v.literal('all'),
+    v.literal('link'),
+    v.literal('note'),
+    v.literal('todo'),
+    v.literal('image'),
+    v.literal('file'),
+  ),
+  tags: v.array(v.string()),
+  viewMode: v.union(
+    v.literal('all'),
+    v.literal('today'),
+    v.literal('week'),
+    v.literal('month'),
+  ),
+  search: v.string(),
+  // Start of the client's local day, so date windows follow its timezone
+  today: v.number(),
+})
+
+type ItemFilters = Infer<typeof itemFiltersValidator>
+
+// Entries sent without `completed` keep the state stored for their id
+const checklistValidator = v.array(
+  v.object({
+    id: v.string(),
+    label: v.string(),
+    completed: v.optional(v.boolean()),
+  }),
+)
+
+type Checklist = Infer<typeof checklistValidator>
+
+async function withFileUrl(ctx: QueryCtx, item: Doc<'items'>) {
+  if (item.storageId) {
+    const url = await ctx.storage.getUrl(item.storageId)
+    const thumbnailUrl = item.thumbnailId
+      ? await ctx.storage.getUrl(item.thumbnailId)
+      : null
+    return { ...item, url, thumbnailUrl }
   }
-  return user
+  return item
 }
 
-async function getUserPermission(
-  ctx: QueryCtx | MutationCtx,
+function getDateWindow(viewMode: ItemFilters['viewMode'], today: number) {
+  if (viewMode === 'all') return null
+  if (viewMode === 'today') return { start: today, end: today + DAY_MS }
+  if (viewMode === 'week') return { start: today, end: today + 8 * DAY_MS }
+
+  // Shifting by a calendar month keeps the client's local midnight
+  const monthFromNow = new Date(today)
+  monthFromNow.setUTCMonth(monthFromNow.getUTCMonth() + 1)
+  return { start: today, end: monthFromNow.getTime() + DAY_MS }
+}
+
+function queryChestItems(
+  ctx: QueryCtx,
   chestId: Id<'chests'>,
+  section: 'todos' | 'content' | 'all',
+  filters: ItemFilters,
+) {
+  const type =
+    section === 'todos' ? 'todo' : filters.type === 'all' ? null : filters.type
+  const dateWindow = getDateWindow(filters.viewMode, filters.today)
+  const search = filters.search.trim()
+
+  type ItemsQuery = OrderedQuery<NamedTableInfo<DataModel, 'items'>>
+  const withinWindow = (ordered: ItemsQuery) =>
+    dateWindow
+      ? ordered.filter((q) =>
+          q.and(
+            q.gte(q.field('dateTime'), dateWindow.start),
+            q.lt(q.field('dateTime'), dateWindow.end),
+          ),
+        )
+      : ordered
+
+  let items: ItemsQuery
+  if (search) {
+    // Search results come back ranked by relevance, not by date
+    items = withinWindow(
+      ctx.db.query('items').withSearchIndex('search_text', (q) => {
+        const matches = q.search('searchText', search).eq('chestId', chestId)
+        return type ? matches.eq('type', type) : matches
+      }),
+    )
+  } else if (section === 'todos') {
+    // The todo list has always shown the newest todos first
+    items = withinWindow(
+      ctx.db
+        .query('items')
+        .withIndex('by_chest_and_type', (q) =>
+          q.eq('chestId', chestId).eq('type', 'todo'),
+        )
+        .order('desc'),
+    )
+  } else if (type) {
+    // Other items go by date, latest first; undated ones sort last
+    items = ctx.db
+      .query('items')
+      .withIndex('by_chest_and_type_and_dateTime', (q) => {
+        const typed = q.eq('chestId', chestId).eq('type', type)
+        return dateWindow
+          ? typed
+              .gte('dateTime', dateWindow.start)
+              .lt('dateTime', dateWindow.end)
+          : typed
+      })
+      .order('desc')
+  } else {
+    items = ctx.db
+      .query('items')
+      .withIndex('by_chest_and_dateTime', (q) => {
+        const chest = q.eq('chestId', chestId)
+        return dateWindow
+          ? chest
+              .gte('dateTime', dateWindow.start)
+              .lt('dateTime', dateWindow.end)
+          : chest
+      })
+      .order('desc')
+  }
+
+  // Todos have their own section, so content never includes them, even when
+  // the type filter asks for todos
+  if (section === 'content' && (!type || type === 'todo')) {
+    items = items.filter((q) => q.neq(q.field('type'), 'todo'))
+  }
+
+  return items
+}
+
+// Tags can't be expressed as an index range or a filter, so they're applied
+// per page; a page can come back short or empty, and the lists keep loading
+// past it while more pages exist
+function matchesTags(item: Doc<'items'>, tags: Array<string>) {
+  return tags.length === 0 || tags.some((tag) => item.tags?.includes(tag))
+}
+
+async function sha256Hex(text: string) {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text),
+  )
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('')
+}
+
+// Convex reports a stored file's SHA-256 in base64; items keep it as hex,
+// the same form the client computes before uploading
+function base64ToHex(base64: string) {
+  return Array.from(atob(base64), (char) =>
+    char.charCodeAt(0).toString(16).padStart(2, '0'),
+  ).join('')
+}
+
+// Items sharing a key within a chest stack instead of duplicating: the same
+// URL, identical note text or identical file contents. Todos never stack.
+async function getStackKey(
+  item: Pick<Doc<'items'>, 'type' | 'url' | 'content' | 'contentHash'>,
+) {
+  if (item.type === 'link' && item.url) {
+    return `link:${await sha256Hex(normalizeUrl(item.url) || item.url)}`
+  }
+  if (item.type === 'note' && item.content?.trim()) {
+    return `note:${await sha256Hex(item.content.trim())}`
+  }
+  if ((item.type === 'image' || item.type === 'file') && item.contentHash) {
+    return `${item.type}:${item.contentHash}`
+  }
+  return undefined
+}
+
+// Looks for bytes already stored where the caller can see them: in the
+// target chest, and for its owner in their other chests as well, so a hash
+// never reveals files from a chest the caller can't open.
+async function findOwnerStorage(
+  ctx: QueryCtx,
+  chest: Doc<'chests'>,
+  contentHash: string,
   userId: Id<'users'>,
 ) {
-  const chest = await ctx.db.get(chestId)
-  if (chest?.ownerId === userId) {
-    return 'owner'
+  const isOwner = chest.ownerId === userId
+  const matches = await ctx.db
+    .query('items')
+    .withIndex('by_contentHash', (q) => q.eq('contentHash', contentHash))
+    .take(20)
+
+  for (const match of matches) {
+    if (!match.storageId) continue
+    if (match.chestId !== chest._id) {
+      if (!isOwner) continue
+      const matchChest = await ctx.db.get(match.chestId)
+      if (matchChest?.ownerId !== userId) continue
+    }
+
+    const file = await ctx.db.system.get(match.storageId)
+    if (file) return file
   }
+  return null
+}
 
-  const permission = await ctx.db
-    .query('chestPermissions')
-    .withIndex('by_chest_and_user', (q) =>
-      q.eq('chestId', chestId).eq('userId', userId),
-    )
+async function chestReferencesStorage(
+  ctx: MutationCtx,
+  chestId: Id<'chests'>,
+  storageId: Id<'_storage'>,
+) {
+  const item = await ctx.db
+    .query('items')
+    .withIndex('by_storageId', (q) => q.eq('storageId', storageId))
+    .filter((q) => q.eq(q.field('chestId'), chestId))
     .first()
+  return item !== null
+}
 
-  return permission?.role || null
+// Link items start from their embed provider and the shared preview cache;
+// a cache miss or stale entry needs a fetch
+async function getCachedLinkFields(ctx: MutationCtx, url: string) {
+  const embed = resolveEmbed(url)
+  const cached = await getCachedPreview(ctx, url)
+  const embedFields = {
+    embedType: embed?.embedType,
+    embedProvider: embed?.embedProvider,
+    embedUrl: embed ? embed.embedUrl || cached?.embedUrl : undefined,
+  }
+
+  if (!cached) {
+    return {
+      fields: { previewStatus: 'pending' as const, ...embedFields },
+      title: undefined,
+      needsRefresh: true,
+    }
+  }
+
+  return {
+    fields: {
+      previewStatus: 'ready' as const,
+      description: cached.description,
+      preview: cached.image,
+      siteName: cached.siteName,
+      favicon: cached.favicon,
+      ...embedFields,
+    },
+    title: cached.title,
+    needsRefresh: !isPreviewFresh(cached),
+  }
 }
 
-export const fetchLinkPreview = action({
-  args: { url: v.string() },
+export const saveLinkPreview = internalMutation({
+  args: {
+    itemId: v.id('items'),
+    url: v.string(),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    preview: v.optional(v.string()),
+    siteName: v.optional(v.string()),
+    favicon: v.optional(v.string()),
+    embedUrl: v.optional(v.string()),
+    failed: v.boolean(),
+  },
   handler: async (ctx, args) => {
-    try {
-      const response = await fetch(args.url)
-      const html = await response.text()
+    const item = await ctx.db.get(args.itemId)
 
-      // Extract meta tags
-      const getMetaContent = (property: string) => {
-        const regex = new RegExp(
-          `<meta[^>]*(?:property|name)=["']${property}["'][^>]*content=["']([^"']*)["']`,
-          'i',
-        )
-        const match = html.match(regex)
-        return match ? match[1] : null
+    // The item may have been deleted or re-pointed while the fetch ran
+    if (!item || item.url !== args.url) return
+
+    if (args.failed) {
+      await ctx.db.patch(args.itemId, { previewStatus: 'failed' })
+      return
+    }
+
+    const updates: Partial<Doc<'items'>> = {
+      previewStatus: 'ready',
+      description: args.description,
+      preview: args.preview,
+      siteName: args.siteName,
+      favicon: args.favicon,
+    }
+
+    // Pattern-built players win over oEmbed ones
+    if (item.embedProvider && !item.embedUrl && args.embedUrl) {
+      updates.embedUrl = args.embedUrl
+    }
+
+    // Keep titles the user typed; only replace the URL placeholder
+    if (args.title && (!item.title || item.title === item.url)) {
+      updates.title = args.title
+    }
+
+    await ctx.db.patch(args.itemId, {
+      ...updates,
+      searchText: buildSearchText({ ...item, ...updates }),
+    })
+  },
+})
+
+export const saveImageMetadata = internalMutation({
+  args: {
+    itemId: v.id('items'),
+    storageId: v.id('_storage'),
+    stripped: v.optional(
+      v.object({ storageId: v.id('_storage'), mimeType: v.string() }),
+    ),
+    capturedAt: v.optional(v.number()),
+    thumbnailId: v.id('_storage'),
+    width: v.number(),
+    height: v.number(),
+    dominantColor: v.string(),
+    blurhash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const item = await ctx.db.get(args.itemId)
+
+    // Deleted or replaced while processing; nothing will reference the outputs
+    if (!item || item.storageId !== args.storageId) {
+      await ctx.storage.delete(args.thumbnailId)
+      if (args.stripped) {
+        await ctx.storage.delete(args.stripped.storageId)
       }
+      return
+    }
+
+    const { itemId, storageId, stripped, capturedAt, ...metadata } = args
 
-      const getTitle = () => {
-        const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i)
-        return titleMatch ? titleMatch[1] : null
+    // The capture date only fills in a date nobody picked
+    if (capturedAt !== undefined && item.dateTime === undefined) {
+      await ctx.db.patch(itemId, { dateTime: capturedAt })
+    }
+
+    if (!stripped) {
+      await ctx.db.patch(itemId, metadata)
+      return
+    }
+
+    // Items sharing the original bytes in chests that strip metadata move to
+    // the clean copy; chests that opted out keep the original, which is
+    // deleted once nothing uses it. contentHash keeps the uploaded bytes' hash
+    // so the same photo still dedupes and stacks.
+    const [original, clean] = await Promise.all([
+      ctx.db.system.get(storageId),
+      ctx.db.system.get(stripped.storageId),
+    ])
+    if (!clean) return
+
+    const sharing = await ctx.db
+      .query('items')
+      .withIndex('by_storageId', (q) => q.eq('storageId', storageId))
+      .collect()
+    const chestIds = new Set<Id<'chests'>>()
+    for (const chestId of new Set(sharing.map((shared) => shared.chestId))) {
+      const chest = await ctx.db.get(chestId)
+      if (chest && chest.stripImageMetadata !== false) {
+        chestIds.add(chestId)
       }
+    }
+    const moving = sharing.filter((shared) => chestIds.has(shared.chestId))
 
-      return {
-        title:
-          getMetaContent('og:title') ||
-          getMetaContent('twitter:title') ||
-          getTitle(),
-        description:
-          getMetaContent('og:description') ||
-          getMetaContent('twitter:description') ||
-          getMetaContent('description'),
-        image: getMetaContent('og:image') || getMetaContent('twitter:image'),
-        siteName: getMetaContent('og:site_name'),
+    // The chest opted out while the image was processing
+    if (!moving.some((shared) => shared._id === itemId)) {
+      await ctx.db.patch(itemId, metadata)
+    }
+    for (const shared of moving) {
+      await ctx.db.patch(shared._id, {
+        ...metadata,
+        storageId: stripped.storageId,
+        mimeType: stripped.mimeType,
+        fileSize: clean.size,
+        metadataStripped: true,
+      })
+    }
+    for (const chestId of chestIds) {
+      await adjustChestStorage(
+        ctx,
+        chestId,
+        'image',
+        clean.size - (original?.size ?? 0),
+      )
+    }
+    await deleteStorageIfUnreferenced(ctx, storageId)
+    await deleteStorageIfUnreferenced(ctx, stripped.storageId)
+  },
+})
+
+export const saveFilePreview = internalMutation({
+  args: {
+    itemId: v.id('items'),
+    storageId: v.id('_storage'),
+    thumbnailId: v.optional(v.id('_storage')),
+    pageCount: v.optional(v.number()),
+    textExcerpt: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const item = await ctx.db.get(args.itemId)
+
+    // Deleted or replaced while processing; nothing will reference the thumbnail
+    if (!item || item.storageId !== args.storageId) {
+      if (args.thumbnailId) {
+        await ctx.storage.delete(args.thumbnailId)
       }
-    } catch (error) {
-      console.error('Failed to fetch link preview:', error)
-      return null
+      return
     }
+
+    const { itemId, storageId, ...preview } = args
+    await ctx.db.patch(itemId, preview)
   },
 })
 
@@ -100,19 +467,119 @@ export const getChestItems = query({
 
     // Get file URLs for images and files
     const itemsWithUrls = await Promise.all(
-      items.map(async (item) => {
-        if (item.storageId) {
-          const url = await ctx.storage.getUrl(item.storageId)
-          return { ...item, url }
-        }
-        return item
-      }),
+      items.map((item) => withFileUrl(ctx, item)),
     )
 
     return itemsWithUrls
   },
 })
 
+export const getChestItemsPage = query({
+  args: {
+    chestId: v.id('chests'),
+    section: v.union(
+      v.literal('todos'),
+      v.literal('content'),
+      v.literal('all'),
+    ),
+    filters: itemFiltersValidator,
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const permission = await getUserPermission(ctx, args.chestId, user._id)
+
+    if (!permission) {
+      throw new Error('Access denied')
+    }
+
+    const result = await queryChestItems(
+      ctx,
+      args.chestId,
+      args.section,
+      args.filters,
+    ).paginate(args.paginationOpts)
+
+    // Only resolve storage URLs for the items on this page
+    const search = args.filters.search.trim()
+    const page = await Promise.all(
+      result.page
+        .filter((item) => matchesTags(item, args.filters.tags))
+        .map(async (item) => ({
+          ...(await withFileUrl(ctx, item)),
+          searchSnippet: search ? getSearchSnippet(item, search) : null,
+        })),
+    )
+
+    return { ...result, page }
+  },
+})
+
+export const getChestTags = query({
+  args: { chestId: v.id('chests') },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const permission = await getUserPermission(ctx, args.chestId, user._id)
+
+    if (!permission) {
+      throw new Error('Access denied')
+    }
+
+    return await getChestTagNames(ctx, args.chestId)
+  },
+})
+
+// Checks a repeat rule from the client and pins it to the todo's date; when
+// the date moved, the day pinned from the old date is replaced
+function prepareRecurrence(
+  rule: string,
+  dateTime: number | undefined,
+  timeZone = 'UTC',
+  dateChanged = false,
+) {
+  if (dateTime === undefined) {
+    throw new ConvexError('A repeating todo needs a date')
+  }
+  if (!isValidTimeZone(timeZone)) {
+    throw new ConvexError(`Unknown time zone: ${timeZone}`)
+  }
+  return {
+    recurrence: dateChanged
+      ? repinRecurrence(rule, dateTime, timeZone)
+      : normalizeRecurrence(rule, dateTime, timeZone),
+    timeZone,
+  }
+}
+
+// Trims the entries from the client and drops blank ones; ids come from the
+// client so entries can be toggled while the dialog is open elsewhere, and
+// those ticks survive the dialog's save unless it changed the same entry
+function prepareChecklist(
+  checklist: Checklist,
+  stored: Doc<'items'>['checklist'] = [],
+) {
+  const storedCompleted = new Map(
+    stored.map((entry) => [entry.id, entry.completed]),
+  )
+  const entries = checklist
+    .map((entry) => ({
+      id: entry.id,
+      label: entry.label.trim(),
+      completed: entry.completed ?? storedCompleted.get(entry.id) ?? false,
+    }))
+    .filter((entry) => entry.label)
+  if (entries.length > MAX_CHECKLIST_ENTRIES) {
+    throw new ConvexError(
+      `A checklist can have at most ${MAX_CHECKLIST_ENTRIES} entries`,
+    )
+  }
+  const ids = new Set(entries.map((entry) => entry.id))
+  if (ids.size !== entries.length || ids.has('')) {
+    throw new ConvexError('Checklist entries need unique ids')
+  }
+  return entries.length > 0 ? entries : undefined
+}
+
 export const addItem = mutation({
   args: {
     chestId: v.id('chests'),
@@ -137,6 +604,11 @@ export const addItem = mutation({
 
     // Todo fields
     label: v.optional(v.string()),
+    recurrence: v.optional(v.string()),
+    // The zone a repeating todo follows; for images, the zone the capture date
+    // is read in when the camera didn't record an offset
+    timeZone: v.optional(v.string()),
+    checklist: v.optional(checklistValidator),
 
     // File fields
     storageId: v.optional(v.id('_storage')),
@@ -161,15 +633,39 @@ export const addItem = mutation({
       tags: args.tags,
     }
 
+    let needsPreview = false
+
+    if (args.recurrence && args.type !== 'todo') {
+      throw new Error('Only todos can repeat')
+    }
+    if (args.checklist && args.type !== 'todo') {
+      throw new Error('Only todos can have a checklist')
+    }
+
     // Add type-specific fields
     if (args.type === 'link') {
       itemData.url = args.url
       itemData.title = args.title || args.url
+      if (args.url) {
+        const cached = await getCachedLinkFields(ctx, args.url)
+        Object.assign(itemData, cached.fields)
+        itemData.title = args.title || cached.title || args.url
+        needsPreview = cached.needsRefresh
+      }
     } else if (args.type === 'note') {
       itemData.content = args.content || ''
     } else if (args.type === 'todo') {
       itemData.label = args.label || ''
       itemData.completed = false
+      if (args.checklist) {
+        itemData.checklist = prepareChecklist(args.checklist)
+      }
+      if (args.recurrence) {
+        Object.assign(
+          itemData,
+          prepareRecurrence(args.recurrence, args.dateTime, args.timeZone),
+        )
+      }
     } else if (args.type === 'image' || args.type === 'file') {
       itemData.storageId = args.storageId
       itemData.filename = args.filename
@@ -177,7 +673,175 @@ export const addItem = mutation({
       itemData.fileSize = args.fileSize
     }
 
+    const chest = await ctx.db.get(args.chestId)
+    if (!chest) {
+      throw new Error('Chest not found')
+    }
+
+    let storageId = args.storageId
+    let file = storageId ? await ctx.db.system.get(storageId) : null
+    if (storageId && !file) {
+      throw new ConvexError('Upload not found. Try uploading the file again.')
+    }
+    // Stripped images are stored under a new blob but keep the hash of the
+    // bytes that were uploaded
+    const sharing = file
+      ? await ctx.db
+          .query('items')
+          .withIndex('by_storageId', (q) => q.eq('storageId', storageId))
+          .first()
+      : null
+    const contentHash = file
+      ? (sharing?.contentHash ?? base64ToHex(file.sha256))
+      : undefined
+    // Files too large for the client to hash are matched here instead, by the
+    // hash storage computed, and a new upload of bytes the owner already
+    // stored gives way to the stored copy
+    if (file && contentHash && !sharing) {
+      const stored = await findOwnerStorage(ctx, chest, contentHash, user._id)
+      if (stored) {
+        await ctx.storage.delete(file._id)
+        storageId = stored._id
+        file = stored
+        itemData.storageId = storageId
+      }
+    }
+    if (file && (args.type === 'image' || args.type === 'file')) {
+      // Size and type come from storage, not from what the client reported
+      itemData.mimeType = assertUploadAllowed(chest, {
+        itemType: args.type,
+        contentType: file.contentType,
+        size: file.size,
+        filename: args.filename,
+      })
+    }
+    itemData.contentHash = contentHash
+
+    itemData.searchText = buildSearchText(itemData)
+    itemData.stackKey = await getStackKey(itemData)
+
+    if (itemData.stackKey) {
+      const existing = await ctx.db
+        .query('items')
+        .withIndex('by_chest_and_stackKey', (q) =>
+          q.eq('chestId', args.chestId).eq('stackKey', itemData.stackKey),
+        )
+        .first()
+
+      if (existing) {
+        const tags = [
+          ...new Set([...(existing.tags || []), ...(args.tags || [])]),
+        ]
+        await ctx.db.patch(existing._id, {
+          stackSize: existing.stackSize + 1,
+          tags: tags.length > 0 ? tags : existing.tags,
+          searchText: buildSearchText({ ...existing, tags }),
+        })
+        await adjustChestTags(ctx, args.chestId, existing.tags, tags)
+        await adjustChestUsage(ctx, args.chestId, existing.type, { count: 1 })
+
+        // The stack keeps its original file, so a duplicate upload can go;
+        // a blob reused from another chest stays with the items using it
+        if (storageId && storageId !== existing.storageId) {
+          await deleteStorageIfUnreferenced(ctx, storageId)
+        }
+        return existing._id
+      }
+    }
+
+    // Stacking never takes a slot, so only new rows count against capacity
+    await assertChestHasRoom(ctx, chest, 1)
+
+    // Charge the stored size, not the size the client reported, and only once
+    // per chest for a blob shared with other items
+    const chargeStorage =
+      !!file && !(await chestReferencesStorage(ctx, args.chestId, storageId!))
+    if (file) {
+      itemData.fileSize = file.size
+    }
+    if (file && chargeStorage) {
+      await assertStorageQuota(ctx, chest, file.size)
+    }
+
+    const [slot] = await findFreeSlots(
+      ctx,
+      args.chestId,
+      getSlotCount(chest),
+      1,
+    )
+    itemData.slot = slot
+
+    // Reused bytes already have a thumbnail; otherwise images get one made.
+    // Chests strip image metadata unless they opted out.
+    const stripMetadata = chest.stripImageMetadata !== false
+    if (args.type === 'image' && storageId) {
+      const processed = await ctx.db
+        .query('items')
+        .withIndex('by_storageId', (q) => q.eq('storageId', storageId))
+        .filter((q) => q.neq(q.field('thumbnailId'), undefined))
+        .first()
+      if (processed && (processed.metadataStripped || !stripMetadata)) {
+        itemData.thumbnailId = processed.thumbnailId
+        itemData.width = processed.width
+        itemData.height = processed.height
+        itemData.dominantColor = processed.dominantColor
+        itemData.blurhash = processed.blurhash
+      }
+    }
+
+    // Previews depend only on the bytes, so a reused file keeps its own
+    let needsFilePreview = args.type === 'file' && !!storageId
+    if (needsFilePreview) {
+      const previewed = await ctx.db
+        .query('items')
+        .withIndex('by_storageId', (q) => q.eq('storageId', storageId))
+        .filter((q) =>
+          q.or(
+            q.neq(q.field('thumbnailId'), undefined),
+            q.neq(q.field('textExcerpt'), undefined),
+          ),
+        )
+        .first()
+      if (previewed) {
+        itemData.thumbnailId = previewed.thumbnailId
+        itemData.pageCount = previewed.pageCount
+        itemData.textExcerpt = previewed.textExcerpt
+        needsFilePreview = false
+      }
+    }
+
     const itemId = await ctx.db.insert('items', itemData)
+    await adjustChestTags(ctx, args.chestId, undefined, itemData.tags)
+    await adjustChestUsage(ctx, args.chestId, args.type, { count: 1 })
+    if (file && chargeStorage) {
+      await adjustChestStorage(ctx, args.chestId, args.type, file.size)
+    }
+    if (args.type === 'image' && storageId && !itemData.thumbnailId) {
+      await ctx.scheduler.runAfter(0, internal.images.processImage, {
+        itemId,
+        storageId,
+        stripMetadata,
+        timeZone:
+          args.timeZone && isValidTimeZone(args.timeZone)
+            ? args.timeZone
+            : undefined,
+      })
+    }
+    if (needsFilePreview) {
+      await ctx.scheduler.runAfter(0, internal.filePreviews.processFile, {
+        itemId,
+        storageId: storageId!,
+        mimeType: itemData.mimeType,
+        filename: args.filename,
+      })
+    }
+
+    if (needsPreview && args.url) {
+      await ctx.scheduler.runAfter(0, internal.linkFetcher.refreshLinkPreview, {
+        itemId,
+        url: args.url,
+      })
+    }
     return itemId
   },
 })
@@ -200,7 +864,243 @@ export const updateItem = mutation({
     // Todo fields
     label: v.optional(v.string()),
     completed: v.optional(v.boolean()),
+    // null stops the todo repeating
+    recurrence: v.optional(v.union(v.string(), v.null())),
+    timeZone: v.optional(v.string()),
+    // Replaces the whole list, in its new order
+    checklist: v.optional(checklistValidator),
+    // Ticks every checklist entry along with the todo
+    completeChecklist: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const item = await ctx.db.get(args.itemId)
+
+    if (!item) {
+      throw new Error('Item not found')
+    }
+
+    const permission = await getUserPermission(ctx, item.chestId, user._id)
+
+    if (!permission || permission === 'viewer') {
+      throw new Error('Access denied')
+    }
+
+    const {
+      itemId,
+      recurrence,
+      timeZone,
+      checklist,
+      completeChecklist,
+      ...updates
+    } = args
+    const urlChanged =
+      item.type === 'link' && !!args.url && args.url !== item.url
+
+    let linkUpdates: Partial<Doc<'items'>> = {}
+    let needsPreview = false
+    if (urlChanged) {
+      const cached = await getCachedLinkFields(ctx, args.url!)
+      linkUpdates = {
+        description: undefined,
+        preview: undefined,
+        siteName: undefined,
+        favicon: undefined,
+        ...cached.fields,
+      }
+
+      // Same rule as saveLinkPreview: only replace a URL placeholder title
+      const title = updates.title ?? item.title
+      if (
+        cached.title &&
+        (!title || title === item.url || title === args.url)
+      ) {
+        linkUpdates.title = cached.title
+      }
+      needsPreview = cached.needsRefresh
+    }
+
+    // Moving a repeating todo moves the day it repeats on with it, whether or
+    // not the rule was sent along
+    const dateChanged =
+      updates.dateTime !== undefined && updates.dateTime !== item.dateTime
+    let repeatUpdates: Partial<Doc<'items'>> = {}
+    if (recurrence === null) {
+      repeatUpdates = { recurrence: undefined, timeZone: undefined }
+    } else if (recurrence !== undefined || (dateChanged && item.recurrence)) {
+      if (item.type !== 'todo') {
+        throw new Error('Only todos can repeat')
+      }
+      repeatUpdates = prepareRecurrence(
+        recurrence ?? item.recurrence!,
+        updates.dateTime ?? item.dateTime,
+        timeZone ?? item.timeZone,
+        dateChanged,
+      )
+    }
+
+    let nextChecklist = item.checklist
+    if (checklist !== undefined) {
+      if (item.type !== 'todo') {
+        throw new Error('Only todos can have a checklist')
+      }
+      nextChecklist = prepareChecklist(checklist, item.checklist)
+    }
+    if (args.completed && completeChecklist) {
+      nextChecklist = nextChecklist?.map((entry) => ({
+        ...entry,
+        completed: true,
+      }))
+    }
+
+    // Completing a repeating todo records the occurrence and moves the todo
+    // on to the next one, with its checklist cleared for the new round; it
+    // only stays completed once the series ends
+    let nextDateTime: number | undefined
+    const rule = repeatUpdates.recurrence ?? item.recurrence
+    if (args.completed && !item.completed && rule && item.dateTime) {
+      const now = Date.now()
+      await ctx.db.insert('todoCompletions', {
+        itemId,
+        chestId: item.chestId,
+        dateTime: item.dateTime,
+        completedAt: now,
+        completedBy: user._id,
+      })
+      const next = advanceRecurrence(
+        rule,
+        item.dateTime,
+        Math.max(now, item.dateTime),
+        repeatUpdates.timeZone ?? item.timeZone ?? 'UTC',
+      )
+      if (next) {
+        nextDateTime = next.dateTime
+        updates.completed = false
+        updates.dateTime = next.dateTime
+        repeatUpdates.recurrence = next.rule
+        nextChecklist = nextChecklist?.map((entry) => ({
+          ...entry,
+          completed: false,
+        }))
+      }
+    }
+
+    const patch = {
+      ...updates,
+      ...linkUpdates,
+      ...repeatUpdates,
+      ...(nextChecklist !== item.checklist && { checklist: nextChecklist }),
+    }
+    // Only a stacking item whose keyed content changed gets a new key. An
+    // unstacked copy stays on its own, and so does an edit that now matches
+    // another row, rather than quietly sharing that row's key.
+    let stackKey = item.stackKey
+    const keyedContentChanged =
+      (patch.url !== undefined && patch.url !== item.url) ||
+      (patch.content !== undefined && patch.content !== item.content)
+    if (stackKey && keyedContentChanged) {
+      stackKey = await getStackKey({ ...item, ...patch })
+      if (stackKey && stackKey !== item.stackKey) {
+        const matching = await ctx.db
+          .query('items')
+          .withIndex('by_chest_and_stackKey', (q) =>
+            q.eq('chestId', item.chestId).eq('stackKey', stackKey),
+          )
+          .first()
+        if (matching) stackKey = undefined
+      }
+    }
+
+    await ctx.db.patch(args.itemId, {
+      ...patch,
+      searchText: buildSearchText({ ...item, ...patch }),
+      stackKey,
+    })
+    if (patch.tags !== undefined) {
+      await adjustChestTags(ctx, item.chestId, item.tags, patch.tags)
+    }
+
+    if (patch.dateTime !== undefined && patch.dateTime !== item.dateTime) {
+      await rescheduleItemReminders(ctx, { ...item, ...patch })
+    }
+
+    if (needsPreview) {
+      await ctx.scheduler.runAfter(0, internal.linkFetcher.refreshLinkPreview, {
+        itemId,
+        url: args.url!,
+      })
+    }
+    return { nextDateTime }
+  },
+})
+
+// Ticks one checklist entry without resending the rest of the list
+export const setChecklistEntryCompleted = mutation({
+  args: { itemId: v.id('items'), entryId: v.string(), completed: v.boolean() },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const item = await ctx.db.get(args.itemId)
+
+    if (!item) {
+      throw new Error('Item not found')
+    }
+
+    const permission = await getUserPermission(ctx, item.chestId, user._id)
+
+    if (!permission || permission === 'viewer') {
+      throw new Error('Access denied')
+    }
+
+    if (!item.checklist?.some((entry) => entry.id === args.entryId)) {
+      throw new Error('Checklist entry not found')
+    }
+
+    await ctx.db.patch(args.itemId, {
+      checklist: item.checklist.map((entry) =>
+        entry.id === args.entryId
+          ? { ...entry, completed: args.completed }
+          : entry,
+      ),
+    })
   },
+})
+
+// Past occurrences of a repeating todo, newest first
+export const getTodoCompletions = query({
+  args: { itemId: v.id('items') },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const item = await ctx.db.get(args.itemId)
+    if (!item) {
+      return []
+    }
+
+    const permission = await getUserPermission(ctx, item.chestId, user._id)
+    if (!permission) {
+      throw new Error('Access denied')
+    }
+
+    const completions = await ctx.db
+      .query('todoCompletions')
+      .withIndex('by_item', (q) => q.eq('itemId', args.itemId))
+      .order('desc')
+      .take(50)
+
+    return Promise.all(
+      completions.map(async (completion) => {
+        const completedBy = await ctx.db.get(completion.completedBy)
+        return {
+          ...completion,
+          completedByName: completedBy?.name ?? completedBy?.email,
+        }
+      }),
+    )
+  },
+})
+
+// Splits a stack back into separate items, one per stacked copy
+export const unstackItem = mutation({
+  args: { itemId: v.id('items') },
   handler: async (ctx, args) => {
     const user = await getLoggedInUser(ctx)
     const item = await ctx.db.get(args.itemId)
@@ -215,9 +1115,167 @@ export const updateItem = mutation({
       throw new Error('Access denied')
     }
 
-    const { itemId, ...updates } = args
+    if (item.stackSize <= 1) {
+      throw new Error('Item is not stacked')
+    }
 
-    await ctx.db.patch(args.itemId, updates)
+    const chest = await ctx.db.get(item.chestId)
+    if (!chest) {
+      throw new Error('Chest not found')
+    }
+    await assertChestHasRoom(ctx, chest, item.stackSize - 1)
+    const freeSlots = await findFreeSlots(
+      ctx,
+      item.chestId,
+      getSlotCount(chest),
+      item.stackSize - 1,
+    )
+
+    // Copies leave the stack key to the original, so duplicates added later
+    // keep stacking there instead of onto a copy
+    const { _id, _creationTime, stackKey, ...fields } = item
+    for (let copy = 1; copy < item.stackSize; copy++) {
+      const copyId = await ctx.db.insert('items', {
+        ...fields,
+        stackSize: 1,
+        slot: freeSlots[copy - 1],
+      })
+      await adjustChestTags(ctx, item.chestId, undefined, item.tags)
+      await copyItemReminders(ctx, item._id, {
+        _id: copyId,
+        chestId: item.chestId,
+        dateTime: item.dateTime,
+      })
+
+      if (
+        item.type === 'link' &&
+        item.url &&
+        item.previewStatus === 'pending'
+      ) {
+        await ctx.scheduler.runAfter(
+          0,
+          internal.linkFetcher.refreshLinkPreview,
+          { itemId: copyId, url: item.url },
+        )
+      }
+    }
+    await ctx.db.patch(item._id, { stackSize: 1 })
+  },
+})
+
+export const getChestSlots = query({
+  args: { chestId: v.id('chests') },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const permission = await getUserPermission(ctx, args.chestId, user._id)
+
+    if (!permission) {
+      throw new Error('Access denied')
+    }
+
+    const chest = await ctx.db.get(args.chestId)
+    if (!chest) {
+      throw new Error('Chest not found')
+    }
+
+    const slotCount = getSlotCount(chest)
+    const items = await getSlottedItems(ctx, args.chestId, slotCount)
+    const unslotted = await ctx.db
+      .query('items')
+      .withIndex('by_chest_and_slot', (q) =>
+        q.eq('chestId', args.chestId).eq('slot', undefined),
+      )
+      .first()
+
+    return {
+      slotCount,
+      capacity: chest.capacity ?? null,
+      items: await Promise.all(items.map((item) => withFileUrl(ctx, item))),
+      hasUnslottedItems: unslotted !== null,
+    }
+  },
+})
+
+// Drops an item into a slot, swapping with whatever was there
+export const moveItemToSlot = mutation({
+  args: { itemId: v.id('items'), slot: v.number() },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const item = await ctx.db.get(args.itemId)
+
+    if (!item) {
+      throw new Error('Item not found')
+    }
+
+    const permission = await getUserPermission(ctx, item.chestId, user._id)
+
+    if (!permission || permission === 'viewer') {
+      throw new Error('Access denied')
+    }
+
+    const chest = await ctx.db.get(item.chestId)
+    if (!chest) {
+      throw new Error('Chest not found')
+    }
+
+    const slotCount = getSlotCount(chest)
+    if (
+      !Number.isInteger(args.slot) ||
+      args.slot < 0 ||
+      args.slot >= slotCount
+    ) {
+      throw new ConvexError(`Slot must be between 0 and ${slotCount - 1}`)
+    }
+    if (item.slot === args.slot) return
+
+    const occupant = await ctx.db
+      .query('items')
+      .withIndex('by_chest_and_slot', (q) =>
+        q.eq('chestId', item.chestId).eq('slot', args.slot),
+      )
+      .first()
+
+    if (occupant) {
+      await ctx.db.patch(occupant._id, { slot: item.slot })
+    }
+    await ctx.db.patch(item._id, { slot: args.slot })
+  },
+})
+
+// Places items that have no slot yet (older items, or ones added while the grid was full)
+export const fillEmptySlots = mutation({
+  args: { chestId: v.id('chests') },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const permission = await getUserPermission(ctx, args.chestId, user._id)
+
+    if (!permission || permission === 'viewer') {
+      throw new Error('Access denied')
+    }
+
+    const chest = await ctx.db.get(args.chestId)
+    if (!chest) {
+      throw new Error('Chest not found')
+    }
+
+    const slotCount = getSlotCount(chest)
+    const freeSlots = await findFreeSlots(
+      ctx,
+      args.chestId,
+      slotCount,
+      slotCount,
+    )
+    const unslotted = await ctx.db
+      .query('items')
+      .withIndex('by_chest_and_slot', (q) =>
+        q.eq('chestId', args.chestId).eq('slot', undefined),
+      )
+      .take(freeSlots.length)
+
+    for (const [index, item] of unslotted.entries()) {
+      await ctx.db.patch(item._id, { slot: freeSlots[index] })
+    }
+    return unslotted.length
   },
 })
 
@@ -238,13 +1296,89 @@ export const deleteItem = mutation({
     }
 
     await ctx.db.delete(args.itemId)
+    await adjustChestTags(ctx, item.chestId, item.tags, undefined)
+    await adjustChestUsage(ctx, item.chestId, item.type, {
+      count: -item.stackSize,
+    })
+    const completions = await ctx.db
+      .query('todoCompletions')
+      .withIndex('by_item', (q) => q.eq('itemId', args.itemId))
+      .collect()
+    await Promise.all(completions.map((c) => ctx.db.delete(c._id)))
+    await deleteItemReminders(ctx, args.itemId)
+    if (item.storageId) {
+      if (!(await chestReferencesStorage(ctx, item.chestId, item.storageId))) {
+        await adjustChestStorage(
+          ctx,
+          item.chestId,
+          item.type,
+          -(item.fileSize ?? 0),
+        )
+      }
+      await deleteStorageIfUnreferenced(ctx, item.storageId)
+    }
+    if (item.thumbnailId) {
+      await deleteStorageIfUnreferenced(ctx, item.thumbnailId)
+    }
+  },
+})
+
+// Lets the client skip uploading bytes it could already reach; see
+// findOwnerStorage
+export const findStoredFile = query({
+  args: { chestId: v.id('chests'), contentHash: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const permission = await getUserPermission(ctx, args.chestId, user._id)
+
+    if (!permission || permission === 'viewer') {
+      throw new Error('Access denied')
+    }
+
+    const chest = await ctx.db.get(args.chestId)
+    if (!chest) {
+      throw new Error('Chest not found')
+    }
+
+    const stored = await findOwnerStorage(
+      ctx,
+      chest,
+      args.contentHash.toLowerCase(),
+      user._id,
+    )
+    return stored?._id ?? null
   },
 })
 
 export const generateUploadUrl = mutation({
-  args: {},
-  handler: async (ctx) => {
-    await getLoggedInUser(ctx)
+  args: {
+    chestId: v.id('chests'),
+    itemType: v.union(v.literal('image'), v.literal('file')),
+    fileSize: v.number(),
+    mimeType: v.optional(v.string()),
+    filename: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const permission = await getUserPermission(ctx, args.chestId, user._id)
+
+    if (!permission || permission === 'viewer') {
+      throw new Error('Access denied')
+    }
+
+    const chest = await ctx.db.get(args.chestId)
+    if (!chest) {
+      throw new Error('Chest not found')
+    }
+
+    // Fail before the upload; addItem checks again with the stored file
+    assertUploadAllowed(chest, {
+      itemType: args.itemType,
+      contentType: args.mimeType,
+      size: args.fileSize,
+      filename: args.filename,
+    })
+    await assertStorageQuota(ctx, chest, args.fileSize)
     return await ctx.storage.generateUploadUrl()
   },
 })
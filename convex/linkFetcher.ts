@@ -0,0 +1,436 @@
+'use node'
+
+import dns from 'node:dns'
+import http from 'node:http'
+import https from 'node:https'
+import net from 'node:net'
+import { v } from 'convex/values'
+import { Parser } from 'htmlparser2'
+import { internalAction } from './_generated/server'
+import { internal } from './_generated/api'
+import { findEmbedProvider, isTrustedEmbedUrl } from './embeds'
+import type { ActionCtx } from './_generated/server'
+import type { IncomingHttpHeaders } from 'node:http'
+import type { LookupAddress, LookupOptions } from 'node:dns'
+
+const FETCH_TIMEOUT_MS = 8000
+const MAX_BODY_BYTES = 512 * 1024
+const MAX_REDIRECTS = 3
+const USER_AGENT = 'Mozilla/5.0 (compatible; echest-link-preview/1.0)'
+
+const HTML_BODY = {
+  accept: 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.1',
+  contentType: /text\/html|application\/xhtml\+xml/i,
+}
+const JSON_BODY = {
+  accept: 'application/json',
+  contentType: /application\/json|text\/javascript/i,
+}
+
+// Loopback, private, link-local, CGNAT, documentation, multicast and reserved
+// ranges. IPv4 and IPv6 use separate lists: a shared BlockList matches every
+// IPv4 address against IPv6 rules through its mapped form.
+const blockedIPv4 = new net.BlockList()
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedIPv4.addSubnet(network, prefix, 'ipv4')
+}
+// Besides local ranges this covers every prefix that embeds or tunnels to an
+// IPv4 host: IPv4-compatible (::/96), NAT64, Teredo and 6to4
+const blockedIPv6 = new net.BlockList()
+for (const [network, prefix] of [
+  ['::', 96],
+  ['64:ff9b::', 96],
+  ['64:ff9b:1::', 48],
+  ['2001::', 32],
+  ['2001:db8::', 32],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedIPv6.addSubnet(network, prefix, 'ipv6')
+}
+
+export function isBlockedAddress(address: string) {
+  const family = net.isIP(address)
+  if (family === 4) return blockedIPv4.check(address, 'ipv4')
+  if (family === 6) {
+    // IPv4-mapped addresses (::ffff:a.b.c.d) reach the embedded IPv4 host
+    const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1]
+    if (mapped) return blockedIPv4.check(mapped, 'ipv4')
+    if (/^::ffff:/i.test(address)) return true
+    return blockedIPv6.check(address, 'ipv6')
+  }
+  return true
+}
+
+// Runs as the socket's DNS lookup, so the address we check is the one we connect to
+export function safeLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | Array<LookupAddress>,
+    family?: number,
+  ) => void,
+) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '')
+      return
+    }
+    if (
+      addresses.length === 0 ||
+      addresses.some((entry) => isBlockedAddress(entry.address))
+    ) {
+      callback(new Error(`Refusing to fetch private host ${hostname}`), '')
+      return
+    }
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+function validateUrl(rawUrl: string) {
+  const url = new URL(rawUrl)
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported URL scheme ${url.protocol}`)
+  }
+  if (url.username || url.password) {
+    throw new Error('URLs with credentials are not fetched')
+  }
+
+  // IP literals skip DNS lookup entirely, so check them here
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+    throw new Error(`Refusing to fetch private host ${hostname}`)
+  }
+  return url
+}
+
+type RawResponse = {
+  status: number
+  headers: IncomingHttpHeaders
+  body: Buffer
+}
+
+type BodyKind = typeof HTML_BODY
+
+function requestOnce(
+  url: URL,
+  signal: AbortSignal,
+  kind: BodyKind,
+  lookup: net.LookupFunction,
+) {
+  return new Promise<RawResponse>((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http
+    const request = client.get(
+      url,
+      {
+        lookup,
+        signal,
+        headers: {
+          'user-agent': USER_AGENT,
+          accept: kind.accept,
+        },
+      },
+      (response) => {
+        const status = response.statusCode ?? 0
+        const contentType = response.headers['content-type'] || ''
+
+        // Redirects and bodies of the wrong type aren't worth reading
+        if (
+          (status >= 300 && status < 400) ||
+          !kind.contentType.test(contentType)
+        ) {
+          response.destroy()
+          resolve({ status, headers: response.headers, body: Buffer.alloc(0) })
+          return
+        }
+
+        const chunks: Array<Buffer> = []
+        let size = 0
+        const finish = () =>
+          resolve({
+            status,
+            headers: response.headers,
+            body: Buffer.concat(chunks),
+          })
+
+        response.on('data', (chunk: Buffer) => {
+          const remaining = MAX_BODY_BYTES - size
+          chunks.push(chunk.subarray(0, remaining))
+          size += Math.min(chunk.length, remaining)
+
+          // The metadata lives in <head>, so a truncated document is fine
+          if (size >= MAX_BODY_BYTES) {
+            response.destroy()
+            finish()
+          }
+        })
+        response.on('end', finish)
+        response.on('error', reject)
+      },
+    )
+    request.on('error', reject)
+  })
+}
+
+// The lookup and timeout are only swapped out by tests, to reach a local
+// server and to time out without waiting the full limit
+export async function fetchPage(
+  rawUrl: string,
+  kind: BodyKind = HTML_BODY,
+  lookup = safeLookup as net.LookupFunction,
+  timeoutMs = FETCH_TIMEOUT_MS,
+) {
+  const signal = AbortSignal.timeout(timeoutMs)
+  let url = validateUrl(rawUrl)
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await requestOnce(url, signal, kind, lookup)
+    const location = response.headers.location
+
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects fetching ${rawUrl}`)
+      }
+      url = validateUrl(new URL(location, url).toString())
+      continue
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+      throw new Error(`Fetching ${url} failed with status ${response.status}`)
+    }
+    return { ...response, url }
+  }
+}
+
+export function decodeBody(body: Buffer, contentType: string | undefined) {
+  // The header wins; otherwise sniff <meta charset> from the first bytes
+  const charset =
+    contentType?.match(/charset=["']?([\w-]+)/i)?.[1] ||
+    body
+      .subarray(0, 2048)
+      .toString('latin1')
+      .match(/<meta[^>]+charset=["']?\s*([\w-]+)/i)?.[1] ||
+    'utf-8'
+
+  try {
+    return new TextDecoder(charset).decode(body)
+  } catch {
+    return new TextDecoder('utf-8').decode(body)
+  }
+}
+
+export function parseLinkMetadata(html: string, pageUrl: URL) {
+  const meta = new Map<string, string>()
+  let title = ''
+  let inTitle = false
+  let titleDone = false
+  let favicon = null as string | null
+
+  // htmlparser2 decodes entities in both text and attribute values
+  const parser = new Parser({
+    onopentag(name, attribs) {
+      if (name === 'meta') {
+        const key = (attribs.property || attribs.name || '').toLowerCase()
+        if (key && attribs.content && !meta.has(key)) {
+          meta.set(key, attribs.content)
+        }
+      } else if (name === 'title' && !titleDone) {
+        inTitle = true
+      } else if (name === 'link' && !favicon && attribs.href) {
+        const rel = (attribs.rel || '').toLowerCase().split(/\s+/)
+        if (rel.includes('icon')) favicon = attribs.href
+      }
+    },
+    ontext(text) {
+      if (inTitle) title += text
+    },
+    onclosetag(name) {
+      if (name === 'title' && inTitle) {
+        inTitle = false
+        titleDone = true
+      }
+    },
+  })
+  parser.write(html)
+  parser.end()
+
+  const clean = (text: string | undefined) =>
+    text?.replace(/\s+/g, ' ').trim() || null
+
+  // Only keep http(s) URLs, resolved against the final page URL
+  const resolve = (path: string | null | undefined) => {
+    if (!path) return null
+    try {
+      const resolved = new URL(path, pageUrl)
+      return resolved.protocol === 'http:' || resolved.protocol === 'https:'
+        ? resolved.toString()
+        : null
+    } catch {
+      return null
+    }
+  }
+
+  return {
+    title: clean(meta.get('og:title') || meta.get('twitter:title') || title),
+    description: clean(
+      meta.get('og:description') ||
+        meta.get('twitter:description') ||
+        meta.get('description'),
+    ),
+    image: resolve(meta.get('og:image') || meta.get('twitter:image')),
+    siteName: clean(meta.get('og:site_name')),
+    favicon: resolve(favicon || '/favicon.ico'),
+  }
+}
+
+// Asks the provider's oEmbed endpoint for a player and keeps it only if it
+// points at one of the provider's trusted frame hosts
+async function fetchOEmbed(url: string) {
+  const provider = findEmbedProvider(url)
+  if (!provider?.oEmbedEndpoint) return null
+
+  try {
+    const endpoint = new URL(provider.oEmbedEndpoint)
+    endpoint.searchParams.set('format', 'json')
+    endpoint.searchParams.set('url', url)
+
+    const response = await fetchPage(endpoint.toString(), JSON_BODY)
+    const data = JSON.parse(response.body.toString('utf-8')) as {
+      html?: unknown
+      title?: unknown
+      thumbnail_url?: unknown
+    }
+
+    const src =
+      typeof data.html === 'string'
+        ? data.html.match(/<iframe[^>]+src=["']([^"']+)["']/i)?.[1]
+        : undefined
+    const embedUrl = src?.replace(/&amp;/g, '&')
+
+    return {
+      embedUrl:
+        embedUrl && isTrustedEmbedUrl(provider.name, embedUrl)
+          ? embedUrl
+          : null,
+      title: typeof data.title === 'string' ? data.title : null,
+      thumbnail:
+        typeof data.thumbnail_url === 'string' ? data.thumbnail_url : null,
+    }
+  } catch (error) {
+    console.error('Failed to fetch oEmbed:', error)
+    return null
+  }
+}
+
+type LinkMetadata = ReturnType<typeof parseLinkMetadata> & {
+  embedUrl: string | null
+}
+
+async function fetchLinkMetadata(url: string): Promise<LinkMetadata | null> {
+  let metadata: ReturnType<typeof parseLinkMetadata> | null = null
+  try {
+    const page = await fetchPage(url)
+    const html = decodeBody(page.body, page.headers['content-type'])
+    metadata = parseLinkMetadata(html, page.url)
+  } catch (error) {
+    console.error('Failed to fetch link preview:', error)
+  }
+
+  // Providers behind bot walls often still answer oEmbed
+  const oEmbed = await fetchOEmbed(url)
+  if (!metadata && !oEmbed) return null
+
+  return {
+    title: metadata?.title || oEmbed?.title || null,
+    description: metadata?.description || null,
+    image: metadata?.image || oEmbed?.thumbnail || null,
+    siteName: metadata?.siteName || null,
+    favicon: metadata?.favicon || null,
+    embedUrl: oEmbed?.embedUrl || null,
+  }
+}
+
+// Serves from the shared cache while it is fresh, otherwise fetches and refills it
+async function getLinkPreview(
+  ctx: ActionCtx,
+  url: string,
+): Promise<LinkMetadata | null> {
+  const cached = await ctx.runQuery(internal.linkPreviews.getFreshPreview, {
+    url,
+  })
+  if (cached) {
+    return {
+      title: cached.title ?? null,
+      description: cached.description ?? null,
+      image: cached.image ?? null,
+      siteName: cached.siteName ?? null,
+      favicon: cached.favicon ?? null,
+      embedUrl: cached.embedUrl ?? null,
+    }
+  }
+
+  const metadata = await fetchLinkMetadata(url)
+  if (metadata) {
+    await ctx.runMutation(internal.linkPreviews.savePreview, {
+      url,
+      title: metadata.title ?? undefined,
+      description: metadata.description ?? undefined,
+      image: metadata.image ?? undefined,
+      siteName: metadata.siteName ?? undefined,
+      favicon: metadata.favicon ?? undefined,
+      embedUrl: metadata.embedUrl ?? undefined,
+    })
+  }
+  return metadata
+}
+
+// Internal so the fetcher can't be used as an open proxy; items.addItem
+// schedules refreshLinkPreview for new links
+export const fetchLinkPreview = internalAction({
+  args: { url: v.string() },
+  handler: async (ctx, args) => {
+    return await getLinkPreview(ctx, args.url)
+  },
+})
+
+export const refreshLinkPreview = internalAction({
+  args: { itemId: v.id('items'), url: v.string() },
+  handler: async (ctx, args) => {
+    const metadata = await getLinkPreview(ctx, args.url)
+
+    await ctx.runMutation(internal.items.saveLinkPreview, {
+      itemId: args.itemId,
+      url: args.url,
+      title: metadata?.title ?? undefined,
+      description: metadata?.description ?? undefined,
+      preview: metadata?.image ?? undefined,
+      siteName: metadata?.siteName ?? undefined,
+      favicon: metadata?.favicon ?? undefined,
+      embedUrl: metadata?.embedUrl ?? undefined,
+      failed: metadata === null,
+    })
+  },
+})
@@ -0,0 +1,95 @@
+import { v } from 'convex/values'
+import { internalMutation, internalQuery } from './_generated/server'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import type { Doc } from './_generated/dataModel'
+
+// Cached previews are reused as-is until they are this old, then refetched
+const PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'mc_cid',
+  'mc_eid',
+  'igshid',
+  'ref_src',
+])
+
+// Same page, same key: drops tracking params, fragments and trailing slashes
+export function normalizeUrl(rawUrl: string) {
+  let url: URL
+  try {
+    url = new URL(rawUrl.trim())
+  } catch {
+    return null
+  }
+
+  for (const key of [...url.searchParams.keys()]) {
+    if (key.toLowerCase().startsWith('utm_') || TRACKING_PARAMS.has(key)) {
+      url.searchParams.delete(key)
+    }
+  }
+  url.hash = ''
+
+  const path = url.pathname.replace(/\/+$/, '')
+  return `${url.protocol}//${url.host}${path}${url.search}`
+}
+
+export function isPreviewFresh(preview: Doc<'linkPreviews'>) {
+  return Date.now() - preview.fetchedAt < PREVIEW_TTL_MS
+}
+
+export async function getCachedPreview(
+  ctx: QueryCtx | MutationCtx,
+  url: string,
+) {
+  const normalizedUrl = normalizeUrl(url)
+  if (!normalizedUrl) return null
+
+  return await ctx.db
+    .query('linkPreviews')
+    .withIndex('by_normalizedUrl', (q) => q.eq('normalizedUrl', normalizedUrl))
+    .unique()
+}
+
+export const getFreshPreview = internalQuery({
+  args: { url: v.string() },
+  handler: async (ctx, args) => {
+    const preview = await getCachedPreview(ctx, args.url)
+    return preview && isPreviewFresh(preview) ? preview : null
+  },
+})
+
+export const savePreview = internalMutation({
+  args: {
+    url: v.string(),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    image: v.optional(v.string()),
+    siteName: v.optional(v.string()),
+    favicon: v.optional(v.string()),
+    embedUrl: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const normalizedUrl = normalizeUrl(args.url)
+    if (!normalizedUrl) return
+
+    const { url, ...metadata } = args
+    const existing = await getCachedPreview(ctx, url)
+    if (existing) {
+      await ctx.db.replace(existing._id, {
+        normalizedUrl,
+        ...metadata,
+        fetchedAt: Date.now(),
+      })
+    } else {
+      await ctx.db.insert('linkPreviews', {
+        normalizedUrl,
+        ...metadata,
+        fetchedAt: Date.now(),
+      })
+    }
+  },
+})
@@ -0,0 +1,131 @@
+import { v } from 'convex/values'
+import {
+  internalMutation,
+  internalQuery,
+  mutation,
+  query,
+} from './_generated/server'
+import { getLoggedInUser } from './access'
+
+const PAGE_SIZE = 30
+
+export const getNotifications = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getLoggedInUser(ctx)
+    const notifications = await ctx.db
+      .query('notifications')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .order('desc')
+      .take(PAGE_SIZE)
+    const unread = await ctx.db
+      .query('notifications')
+      .withIndex('by_user_and_readAt', (q) =>
+        q.eq('userId', user._id).eq('readAt', undefined),
+      )
+      .take(100)
+    return { notifications, unreadCount: unread.length }
+  },
+})
+
+export const markNotificationRead = mutation({
+  args: { notificationId: v.id('notifications') },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const notification = await ctx.db.get(args.notificationId)
+
+    if (!notification || notification.userId !== user._id) {
+      throw new Error('Notification not found')
+    }
+
+    if (notification.readAt === undefined) {
+      await ctx.db.patch(args.notificationId, { readAt: Date.now() })
+    }
+  },
+})
+
+export const markAllNotificationsRead = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getLoggedInUser(ctx)
+    const unread = await ctx.db
+      .query('notifications')
+      .withIndex('by_user_and_readAt', (q) =>
+        q.eq('userId', user._id).eq('readAt', undefined),
+      )
+      .collect()
+    const now = Date.now()
+    await Promise.all(unread.map((n) => ctx.db.patch(n._id, { readAt: now })))
+  },
+})
+
+// ---- Web Push ----
+
+// The VAPID public key browsers subscribe with; null while push isn't set up
+// on this deployment (see push.sendPush)
+export const getPushPublicKey = query({
+  args: {},
+  handler: () => {
+    const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env
+    return VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY && VAPID_SUBJECT
+      ? VAPID_PUBLIC_KEY
+      : null
+  },
+})
+
+export const savePushSubscription = mutation({
+  args: { endpoint: v.string(), p256dh: v.string(), auth: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const existing = await ctx.db
+      .query('pushSubscriptions')
+      .withIndex('by_endpoint', (q) => q.eq('endpoint', args.endpoint))
+      .first()
+
+    // A browser has one endpoint; whoever signed in last gets its pushes
+    if (existing) {
+      await ctx.db.patch(existing._id, { ...args, userId: user._id })
+    } else {
+      await ctx.db.insert('pushSubscriptions', { ...args, userId: user._id })
+    }
+  },
+})
+
+export const removePushSubscription = mutation({
+  args: { endpoint: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const existing = await ctx.db
+      .query('pushSubscriptions')
+      .withIndex('by_endpoint', (q) => q.eq('endpoint', args.endpoint))
+      .first()
+    if (existing?.userId === user._id) {
+      await ctx.db.delete(existing._id)
+    }
+  },
+})
+
+// What push.sendPush needs: the notification and where to send it
+export const getPushDelivery = internalQuery({
+  args: { notificationId: v.id('notifications') },
+  handler: async (ctx, args) => {
+    const notification = await ctx.db.get(args.notificationId)
+    if (!notification) return null
+    const subscriptions = await ctx.db
+      .query('pushSubscriptions')
+      .withIndex('by_user', (q) => q.eq('userId', notification.userId))
+      .collect()
+    return { notification, subscriptions }
+  },
+})
+
+// Push services answer 404 or 410 once a subscription is gone for good
+export const deletePushSubscription = internalMutation({
+  args: { subscriptionId: v.id('pushSubscriptions') },
+  handler: async (ctx, args) => {
+    const subscription = await ctx.db.get(args.subscriptionId)
+    if (subscription) {
+      await ctx.db.delete(args.subscriptionId)
+    }
+  },
+})
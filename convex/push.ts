@@ -0,0 +1,64 @@
+'use node'
+
+import { v } from 'convex/values'
+import webpush from 'web-push'
+import { internalAction } from './_generated/server'
+import { internal } from './_generated/api'
+
+// Sends a notification to every browser its user turned push on in. Push is
+// optional: without VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT (a
+// mailto: or https: contact) in the environment this does nothing, and the
+// in-app notification is all there is.
+export const sendPush = internalAction({
+  args: { notificationId: v.id('notifications') },
+  handler: async (ctx, args) => {
+    const publicKey = process.env.VAPID_PUBLIC_KEY
+    const privateKey = process.env.VAPID_PRIVATE_KEY
+    const subject = process.env.VAPID_SUBJECT
+    if (!publicKey || !privateKey || !subject) return
+
+    const delivery = await ctx.runQuery(
+      internal.notifications.getPushDelivery,
+      {
+        notificationId: args.notificationId,
+      },
+    )
+    if (!delivery) return
+    const { notification, subscriptions } = delivery
+
+    webpush.setVapidDetails(subject, publicKey, privateKey)
+    const payload = JSON.stringify({
+      title: notification.title,
+      body: notification.body,
+      url: notification.itemId
+        ? `/chest/${notification.chestId}?item=${notification.itemId}`
+        : `/chest/${notification.chestId}`,
+    })
+
+    await Promise.all(
+      subscriptions.map(async (subscription) => {
+        try {
+          await webpush.sendNotification(
+            {
+              endpoint: subscription.endpoint,
+              keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+            },
+            payload,
+          )
+        } catch (error) {
+          const status = (error as { statusCode?: number }).statusCode
+          if (status === 404 || status === 410) {
+            await ctx.runMutation(
+              internal.notifications.deletePushSubscription,
+              {
+                subscriptionId: subscription._id,
+              },
+            )
+          } else {
+            console.error('Push failed:', error)
+          }
+        }
+      }),
+    )
+  },
+})
@@ -0,0 +1,200 @@
+import { ConvexError, v } from 'convex/values'
+import { internalMutation, query } from './_generated/server'
+import { internal } from './_generated/api'
+import { getLoggedInUser, getUserPermission } from './access'
+import { formatBytes } from './format'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import type { Doc, Id } from './_generated/dataModel'
+
+// Quotas count each uploaded file once per chest, or the stripped copy that
+// replaced it. Thumbnails and file previews are generated by the app, kept
+// small and shared between items, so they aren't charged to anyone.
+const MB = 1024 * 1024
+export const CHEST_STORAGE_QUOTA = 250 * MB
+export const USER_STORAGE_QUOTA = 1024 * MB
+
+type ItemType = Doc<'items'>['type']
+
+// Files count against the chest and against the chest owner's total,
+// whoever uploads them
+export async function getOwnerStorageUsed(
+  ctx: QueryCtx | MutationCtx,
+  ownerId: Id<'users'>,
+) {
+  const chests = await ctx.db
+    .query('chests')
+    .withIndex('by_owner', (q) => q.eq('ownerId', ownerId))
+    .collect()
+  return chests.reduce((total, chest) => total + (chest.storageUsed ?? 0), 0)
+}
+
+export async function assertStorageQuota(
+  ctx: QueryCtx | MutationCtx,
+  chest: Doc<'chests'>,
+  bytes: number,
+) {
+  const chestUsed = chest.storageUsed ?? 0
+  if (chestUsed + bytes > CHEST_STORAGE_QUOTA) {
+    throw new ConvexError(
+      `Not enough space in "${chest.name}": ${formatBytes(bytes)} needed, ${formatBytes(
+        Math.max(0, CHEST_STORAGE_QUOTA - chestUsed),
+      )} of its ${formatBytes(CHEST_STORAGE_QUOTA)} left.`,
+    )
+  }
+
+  const ownerUsed = await getOwnerStorageUsed(ctx, chest.ownerId)
+  if (ownerUsed + bytes > USER_STORAGE_QUOTA) {
+    throw new ConvexError(
+      `The owner of "${chest.name}" is out of storage: ${formatBytes(bytes)} needed, ${formatBytes(
+        Math.max(0, USER_STORAGE_QUOTA - ownerUsed),
+      )} of ${formatBytes(USER_STORAGE_QUOTA)} left.`,
+    )
+  }
+}
+
+// Keeps the per-type breakdown shown with a chest's usage bar, so reading it
+// doesn't load every item; called when items are added, stacked or deleted
+export async function adjustChestUsage(
+  ctx: MutationCtx,
+  chestId: Id<'chests'>,
+  type: ItemType,
+  delta: { count?: number; bytes?: number },
+) {
+  const row = await ctx.db
+    .query('chestUsage')
+    .withIndex('by_chest_and_type', (q) =>
+      q.eq('chestId', chestId).eq('type', type),
+    )
+    .first()
+  const count = Math.max(0, (row?.count ?? 0) + (delta.count ?? 0))
+  const bytes = Math.max(0, (row?.bytes ?? 0) + (delta.bytes ?? 0))
+  if (row) {
+    await ctx.db.patch(row._id, { count, bytes })
+  } else {
+    await ctx.db.insert('chestUsage', { chestId, type, count, bytes })
+  }
+}
+
+export async function deleteChestUsage(
+  ctx: MutationCtx,
+  chestId: Id<'chests'>,
+) {
+  const rows = await ctx.db
+    .query('chestUsage')
+    .withIndex('by_chest_and_type', (q) => q.eq('chestId', chestId))
+    .collect()
+  await Promise.all(rows.map((row) => ctx.db.delete(row._id)))
+}
+
+// Tracks stored bytes per chest; called when a blob is stored or deleted
+export async function adjustChestStorage(
+  ctx: MutationCtx,
+  chestId: Id<'chests'>,
+  type: ItemType,
+  delta: number,
+) {
+  const chest = await ctx.db.get(chestId)
+  if (!chest) return
+  await ctx.db.patch(chestId, {
+    storageUsed: Math.max(0, (chest.storageUsed ?? 0) + delta),
+  })
+  await adjustChestUsage(ctx, chestId, type, { bytes: delta })
+}
+
+export const getMyStorageUsage = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getLoggedInUser(ctx)
+    return {
+      used: await getOwnerStorageUsed(ctx, user._id),
+      quota: USER_STORAGE_QUOTA,
+      chestQuota: CHEST_STORAGE_QUOTA,
+    }
+  },
+})
+
+export const getChestUsage = query({
+  args: { chestId: v.id('chests') },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const permission = await getUserPermission(ctx, args.chestId, user._id)
+
+    if (!permission) {
+      throw new Error('Access denied')
+    }
+
+    const chest = await ctx.db.get(args.chestId)
+    if (!chest) {
+      throw new Error('Chest not found')
+    }
+
+    const rows = await ctx.db
+      .query('chestUsage')
+      .withIndex('by_chest_and_type', (q) => q.eq('chestId', args.chestId))
+      .collect()
+
+    const byType = {
+      link: { count: 0, bytes: 0 },
+      note: { count: 0, bytes: 0 },
+      todo: { count: 0, bytes: 0 },
+      image: { count: 0, bytes: 0 },
+      file: { count: 0, bytes: 0 },
+    }
+    for (const row of rows) {
+      byType[row.type] = { count: row.count, bytes: row.bytes }
+    }
+
+    return {
+      chest: { used: chest.storageUsed ?? 0, quota: CHEST_STORAGE_QUOTA },
+      owner: {
+        used: await getOwnerStorageUsed(ctx, chest.ownerId),
+        quota: USER_STORAGE_QUOTA,
+      },
+      byType,
+    }
+  },
+})
+
+// Sets storageUsed and the per-type usage for chests created before usage was
+// tracked. Run once with `npx convex run quotas:backfillStorageUsed '{"cursor": null}'`
+export const backfillStorageUsed = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args): Promise<null> => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query('chests')
+      .paginate({ numItems: 20, cursor: args.cursor })
+
+    for (const chest of page) {
+      const items = await ctx.db
+        .query('items')
+        .withIndex('by_chest', (q) => q.eq('chestId', chest._id))
+        .collect()
+
+      await deleteChestUsage(ctx, chest._id)
+      // Unstacked copies share a blob, so each file's bytes count once
+      const counted = new Set<Id<'_storage'>>()
+      let storageUsed = 0
+      for (const item of items) {
+        let bytes = 0
+        if (item.storageId && !counted.has(item.storageId)) {
+          counted.add(item.storageId)
+          const file = await ctx.db.system.get(item.storageId)
+          bytes = file?.size ?? 0
+        }
+        storageUsed += bytes
+        await adjustChestUsage(ctx, chest._id, item.type, {
+          count: item.stackSize,
+          bytes,
+        })
+      }
+      await ctx.db.patch(chest._id, { storageUsed })
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.quotas.backfillStorageUsed, {
+        cursor: continueCursor,
+      })
+    }
+    return null
+  },
+})
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import {
+  advanceRecurrence,
+  describeRecurrence,
+  normalizeRecurrence,
+  parseRecurrence,
+  repinRecurrence,
+} from './recurrence'
+
+const at = (date: string) => Date.parse(`${date}T09:00:00Z`)
+
+// Walks a series from its first date, completing each occurrence on time
+function occurrences(rule: string, first: string, count: number) {
+  const dates: Array<string> = []
+  let dateTime = at(first)
+  let current = normalizeRecurrence(rule, dateTime, 'UTC')
+  for (let i = 0; i < count; i++) {
+    const next = advanceRecurrence(current, dateTime, dateTime, 'UTC')
+    if (!next) break
+    dateTime = next.dateTime
+    current = next.rule
+    dates.push(new Date(dateTime).toISOString().slice(0, 10))
+  }
+  return dates
+}
+
+describe('normalizeRecurrence', () => {
+  it('pins the day of a monthly rule', () => {
+    expect(normalizeRecurrence('FREQ=MONTHLY', at('2026-01-31'), 'UTC')).toBe(
+      'FREQ=MONTHLY;BYMONTHDAY=31',
+    )
+  })
+
+  it('pins the month and day of a yearly rule', () => {
+    expect(normalizeRecurrence('FREQ=YEARLY', at('2028-02-29'), 'UTC')).toBe(
+      'FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29',
+    )
+  })
+
+  it('keeps a day that was already picked', () => {
+    expect(
+      normalizeRecurrence('FREQ=YEARLY;BYMONTHDAY=-1', at('2026-02-28'), 'UTC'),
+    ).toBe('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=-1')
+  })
+
+  it("uses the date in the todo's time zone", () => {
+    // Still 31 December in New York
+    expect(
+      normalizeRecurrence(
+        'FREQ=YEARLY',
+        Date.parse('2027-01-01T03:00:00Z'),
+        'America/New_York',
+      ),
+    ).toBe('FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=31')
+  })
+})
+
+describe('repinRecurrence', () => {
+  it('moves a monthly rule to the new day', () => {
+    expect(
+      repinRecurrence('FREQ=MONTHLY;BYMONTHDAY=15', at('2026-03-20'), 'UTC'),
+    ).toBe('FREQ=MONTHLY;BYMONTHDAY=20')
+  })
+
+  it('moves a yearly rule to the new month and day', () => {
+    expect(
+      repinRecurrence(
+        'FREQ=YEARLY;INTERVAL=2;BYMONTH=2;BYMONTHDAY=29;COUNT=3',
+        at('2026-07-04'),
+        'UTC',
+      ),
+    ).toBe('FREQ=YEARLY;INTERVAL=2;BYMONTH=7;BYMONTHDAY=4;COUNT=3')
+  })
+
+  it('keeps a list of days', () => {
+    expect(
+      repinRecurrence('FREQ=MONTHLY;BYMONTHDAY=1,15', at('2026-03-20'), 'UTC'),
+    ).toBe('FREQ=MONTHLY;BYMONTHDAY=1,15')
+  })
+})
+
+describe('parseRecurrence', () => {
+  it.each([
+    ['FREQ=MONTHLY;BYMONTH=2', 'BYMONTH only works with yearly repeats'],
+    ['FREQ=YEARLY;BYMONTH=13', 'Invalid BYMONTH in repeat rule: 13'],
+    ['FREQ=YEARLY;BYMONTH=1,2', 'Invalid BYMONTH in repeat rule: 1,2'],
+    [
+      'FREQ=WEEKLY;BYMONTHDAY=1',
+      'BYMONTHDAY only works with monthly and yearly repeats',
+    ],
+  ])('refuses %s', (rule, message) => {
+    expect(() => parseRecurrence(rule)).toThrow(message)
+  })
+})
+
+describe('advanceRecurrence', () => {
+  it('comes back to the 31st after short months', () => {
+    expect(occurrences('FREQ=MONTHLY', '2026-01-31', 3)).toEqual([
+      '2026-02-28',
+      '2026-03-31',
+      '2026-04-30',
+    ])
+  })
+
+  it('comes back to 29 February in leap years', () => {
+    expect(occurrences('FREQ=YEARLY', '2028-02-29', 4)).toEqual([
+      '2029-02-28',
+      '2030-02-28',
+      '2031-02-28',
+      '2032-02-29',
+    ])
+  })
+
+  it('keeps rules stored before yearly rules were pinned on their date', () => {
+    expect(
+      advanceRecurrence(
+        'FREQ=YEARLY',
+        at('2026-06-15'),
+        at('2026-06-15'),
+        'UTC',
+      )?.dateTime,
+    ).toBe(at('2027-06-15'))
+  })
+})
+
+describe('describeRecurrence', () => {
+  it('names the month of a yearly rule', () => {
+    expect(describeRecurrence('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29')).toBe(
+      'Every year on the 29th of Feb',
+    )
+    expect(describeRecurrence('FREQ=YEARLY;BYMONTH=3')).toBe(
+      'Every year in Mar',
+    )
+  })
+})
@@ -0,0 +1,383 @@
+// Repeat rules for todos, stored as a subset of iCalendar RRULE (RFC 5545):
+// FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with INTERVAL, BYDAY (daily and weekly),
+// BYMONTHDAY (monthly and yearly; -1 is the last day), BYMONTH (yearly, one
+// month), COUNT and UNTIL. Occurrences keep the wall-clock time of the todo's
+// date in its time zone, across DST.
+import { ConvexError } from 'convex/values'
+import {
+  addDays,
+  addMonths,
+  getDaysInMonth,
+  getWeekday,
+  getZonedParts,
+  toTimestamp,
+} from './timeZones'
+import type { CalendarDate } from './timeZones'
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export interface Recurrence {
+  freq: Frequency
+  interval: number
+  // 0 is Sunday
+  byDay?: Array<number>
+  byMonthDay?: Array<number>
+  // 1 is January
+  byMonth?: number
+  // Occurrences left, counting the current one
+  count?: number
+  until?: number
+}
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const MONTH_NAMES = [
+  'Jan',
+  'Feb',
+  'Mar',
+  'Apr',
+  'May',
+  'Jun',
+  'Jul',
+  'Aug',
+  'Sep',
+  'Oct',
+  'Nov',
+  'Dec',
+]
+const FREQUENCIES: Array<Frequency> = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+
+// How far ahead to look for the next occurrence before giving up
+const MAX_PERIODS = 400
+
+// Monday first, as people read a week
+function sortWeekdays(weekdays: Array<number>) {
+  return [...weekdays].sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+}
+
+function parseNumber(value: string, min: number, max: number, key: string) {
+  const number = Number(value)
+  if (!/^-?\d+$/.test(value) || number < min || number > max) {
+    throw new ConvexError(`Invalid ${key} in repeat rule: ${value}`)
+  }
+  return number
+}
+
+function parseUntil(value: string) {
+  const match = value.match(
+    /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/,
+  )
+  if (!match) throw new ConvexError(`Invalid UNTIL in repeat rule: ${value}`)
+  const [, year, month, day, hour, minute, second] = match.map(Number)
+  // A date alone includes the whole day
+  return match[4]
+    ? Date.UTC(year, month - 1, day, hour, minute, second)
+    : Date.UTC(year, month - 1, day, 23, 59, 59)
+}
+
+function formatUntil(until: number) {
+  return new Date(until).toISOString().replace(/[-:]|\.\d{3}/g, '')
+}
+
+export function parseRecurrence(rule: string): Recurrence {
+  const parts = new Map<string, string>()
+  for (const part of rule
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')) {
+    if (!part) continue
+    const [key, value] = part.split('=')
+    if (!value) throw new ConvexError(`Invalid repeat rule part: ${part}`)
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase())
+  }
+
+  const freq = parts.get('FREQ') as Frequency | undefined
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new ConvexError(
+      'Repeat rules need FREQ=DAILY, WEEKLY, MONTHLY or YEARLY',
+    )
+  }
+  const recurrence: Recurrence = { freq, interval: 1 }
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break
+      case 'INTERVAL':
+        recurrence.interval = parseNumber(value, 1, 999, key)
+        break
+      case 'BYDAY':
+        if (freq !== 'DAILY' && freq !== 'WEEKLY') {
+          throw new ConvexError(
+            'BYDAY only works with daily and weekly repeats',
+          )
+        }
+        recurrence.byDay = [...new Set(value.split(','))].map((code) => {
+          const weekday = WEEKDAY_CODES.indexOf(code)
+          if (weekday === -1) {
+            throw new ConvexError(`Invalid BYDAY in repeat rule: ${code}`)
+          }
+          return weekday
+        })
+        break
+      case 'BYMONTHDAY':
+        if (freq !== 'MONTHLY' && freq !== 'YEARLY') {
+          throw new ConvexError(
+            'BYMONTHDAY only works with monthly and yearly repeats',
+          )
+        }
+        recurrence.byMonthDay = [...new Set(value.split(','))].map((day) =>
+          day === '-1' ? -1 : parseNumber(day, 1, 31, key),
+        )
+        break
+      case 'BYMONTH':
+        if (freq !== 'YEARLY') {
+          throw new ConvexError('BYMONTH only works with yearly repeats')
+        }
+        recurrence.byMonth = parseNumber(value, 1, 12, key)
+        break
+      case 'COUNT':
+        recurrence.count = parseNumber(value, 1, 9999, key)
+        break
+      case 'UNTIL':
+        recurrence.until = parseUntil(value)
+        break
+      default:
+        throw new ConvexError(`Repeat rules don't support ${key}`)
+    }
+  }
+  if (recurrence.count && recurrence.until) {
+    throw new ConvexError(
+      'Use either COUNT or UNTIL in a repeat rule, not both',
+    )
+  }
+  return recurrence
+}
+
+export function formatRecurrence(recurrence: Recurrence) {
+  const parts = [`FREQ=${recurrence.freq}`]
+  if (recurrence.interval > 1) parts.push(`INTERVAL=${recurrence.interval}`)
+  if (recurrence.byDay?.length) {
+    const days = sortWeekdays(recurrence.byDay)
+    parts.push(`BYDAY=${days.map((day) => WEEKDAY_CODES[day]).join(',')}`)
+  }
+  if (recurrence.byMonth) parts.push(`BYMONTH=${recurrence.byMonth}`)
+  if (recurrence.byMonthDay?.length) {
+    parts.push(`BYMONTHDAY=${recurrence.byMonthDay.join(',')}`)
+  }
+  if (recurrence.count) parts.push(`COUNT=${recurrence.count}`)
+  if (recurrence.until) parts.push(`UNTIL=${formatUntil(recurrence.until)}`)
+  return parts.join(';')
+}
+
+// Validates a rule for a todo due at dateTime and pins the day a monthly or
+// yearly rule repeats on, so a todo due on the 31st doesn't drift to the 28th
+// after February, and one due on 29 February comes back in leap years
+export function normalizeRecurrence(
+  rule: string,
+  dateTime: number,
+  timeZone: string,
+) {
+  const recurrence = parseRecurrence(rule)
+  const { month, day } = getZonedParts(dateTime, timeZone)
+  if (recurrence.freq === 'MONTHLY' && !recurrence.byMonthDay) {
+    recurrence.byMonthDay = [day]
+  }
+  if (recurrence.freq === 'YEARLY') {
+    recurrence.byMonth ??= month
+    recurrence.byMonthDay ??= [day]
+  }
+  return formatRecurrence(recurrence)
+}
+
+// Moves a rule to a todo's new date: the month and single day pinned from the
+// old date are dropped and pinned again, while a list of days is kept
+export function repinRecurrence(
+  rule: string,
+  dateTime: number,
+  timeZone: string,
+) {
+  const recurrence = parseRecurrence(rule)
+  recurrence.byMonth = undefined
+  if (recurrence.byMonthDay?.length === 1) {
+    recurrence.byMonthDay = undefined
+  }
+  return normalizeRecurrence(formatRecurrence(recurrence), dateTime, timeZone)
+}
+
+// The days a monthly or yearly rule picks in one month; the 31st means the
+// last day in shorter months, and 29 February the 28th outside leap years
+function getMonthDays(
+  recurrence: Recurrence,
+  start: CalendarDate,
+  year: number,
+  month: number,
+) {
+  const daysInMonth = getDaysInMonth(year, month)
+  const days = (recurrence.byMonthDay ?? [start.day]).map((day) =>
+    day === -1 ? daysInMonth : Math.min(day, daysInMonth),
+  )
+  return [...new Set(days)]
+    .sort((a, b) => a - b)
+    .map((day) => ({ year, month, day }))
+}
+
+// Candidate days of the period k periods after the one holding start, in order
+function getPeriodDays(
+  recurrence: Recurrence,
+  start: CalendarDate,
+  period: number,
+): Array<CalendarDate> {
+  const step = period * recurrence.interval
+  switch (recurrence.freq) {
+    case 'DAILY': {
+      const date = addDays(start, step)
+      const byDay = recurrence.byDay
+      return !byDay || byDay.includes(getWeekday(date)) ? [date] : []
+    }
+    case 'WEEKLY': {
+      // Weeks start on Monday
+      const monday = addDays(start, -((getWeekday(start) + 6) % 7) + step * 7)
+      return sortWeekdays(recurrence.byDay ?? [getWeekday(start)]).map(
+        (weekday) => addDays(monday, (weekday + 6) % 7),
+      )
+    }
+    case 'MONTHLY': {
+      const { year, month } = addMonths({ ...start, day: 1 }, step)
+      return getMonthDays(recurrence, start, year, month)
+    }
+    case 'YEARLY': {
+      const year = start.year + step
+      return getMonthDays(
+        recurrence,
+        start,
+        year,
+        recurrence.byMonth ?? start.month,
+      )
+    }
+  }
+}
+
+// Rough number of whole periods between two days, to skip past long gaps
+function getPeriodsBetween(
+  recurrence: Recurrence,
+  from: CalendarDate,
+  to: CalendarDate,
+) {
+  const days =
+    (Date.UTC(to.year, to.month - 1, to.day) -
+      Date.UTC(from.year, from.month - 1, from.day)) /
+    (24 * 60 * 60 * 1000)
+  // Longest period lengths, so this never skips past the one we want
+  const periodDays = { DAILY: 1, WEEKLY: 7, MONTHLY: 31, YEARLY: 366 }[
+    recurrence.freq
+  ]
+  return Math.max(0, Math.floor(days / periodDays / recurrence.interval) - 1)
+}
+
+// The first occurrence after `after` in the series whose current occurrence
+// is at dateTime, or null once the series has ended
+export function getNextOccurrence(
+  recurrence: Recurrence,
+  dateTime: number,
+  after: number,
+  timeZone: string,
+) {
+  const zoned = getZonedParts(dateTime, timeZone)
+  const start = { year: zoned.year, month: zoned.month, day: zoned.day }
+  const time = { hour: zoned.hour, minute: zoned.minute }
+  const afterParts = getZonedParts(after, timeZone)
+  const first = getPeriodsBetween(recurrence, start, {
+    year: afterParts.year,
+    month: afterParts.month,
+    day: afterParts.day,
+  })
+
+  for (let period = first; period < first + MAX_PERIODS; period++) {
+    for (const date of getPeriodDays(recurrence, start, period)) {
+      const timestamp = toTimestamp(date, time, timeZone)
+      if (timestamp <= after || timestamp <= dateTime) continue
+      if (recurrence.until !== undefined && timestamp > recurrence.until) {
+        return null
+      }
+      return timestamp
+    }
+  }
+  return null
+}
+
+// Moves a repeating todo on from its current occurrence: the next date and
+// the rule to store with it, or null when that was the last occurrence
+export function advanceRecurrence(
+  rule: string,
+  dateTime: number,
+  after: number,
+  timeZone: string,
+) {
+  const recurrence = parseRecurrence(rule)
+  if (recurrence.count === 1) return null
+  const next = getNextOccurrence(recurrence, dateTime, after, timeZone)
+  if (next === null) return null
+  if (recurrence.count) recurrence.count--
+  return { dateTime: next, rule: formatRecurrence(recurrence) }
+}
+
+function formatOrdinal(day: number) {
+  if (day === -1) return 'the last day'
+  const suffix =
+    day % 10 === 1 && day !== 11
+      ? 'st'
+      : day % 10 === 2 && day !== 12
+        ? 'nd'
+        : day % 10 === 3 && day !== 13
+          ? 'rd'
+          : 'th'
+  return `the ${day}${suffix}`
+}
+
+// "Every 2 weeks on Mon, Thu", for labels and badges
+export function describeRecurrence(rule: string) {
+  let recurrence: Recurrence
+  try {
+    recurrence = parseRecurrence(rule)
+  } catch {
+    return 'Repeats'
+  }
+  const unit = {
+    DAILY: 'day',
+    WEEKLY: 'week',
+    MONTHLY: 'month',
+    YEARLY: 'year',
+  }[recurrence.freq]
+  let text =
+    recurrence.interval === 1
+      ? `Every ${unit}`
+      : `Every ${recurrence.interval} ${unit}s`
+
+  const byDay = recurrence.byDay
+  if (
+    byDay &&
+    recurrence.interval === 1 &&
+    byDay.length === 5 &&
+    !byDay.includes(0) &&
+    !byDay.includes(6)
+  ) {
+    text = 'Every weekday'
+  } else if (byDay) {
+    const days = sortWeekdays(byDay).map((day) => WEEKDAY_NAMES[day])
+    text += ` on ${days.join(', ')}`
+  }
+  if (recurrence.byMonthDay) {
+    text += ` on ${recurrence.byMonthDay.map(formatOrdinal).join(', ')}`
+  }
+  if (recurrence.byMonth) {
+    text += `${recurrence.byMonthDay ? ' of' : ' in'} ${MONTH_NAMES[recurrence.byMonth - 1]}`
+  }
+  if (recurrence.count) {
+    text += `, ${recurrence.count} time${recurrence.count === 1 ? '' : 's'} left`
+  }
+  if (recurrence.until) {
+    text += `, until ${new Date(recurrence.until).toLocaleDateString()}`
+  }
+  return text
+}
@@ -0,0 +1,266 @@
+import { ConvexError, v } from 'convex/values'
+import { internalMutation, mutation, query } from './_generated/server'
+import { internal } from './_generated/api'
+import { getLoggedInUser, getUserPermission } from './access'
+import type { MutationCtx } from './_generated/server'
+import type { Doc, Id } from './_generated/dataModel'
+
+// A week ahead is as early as a reminder can be set
+const MAX_MINUTES_BEFORE = 7 * 24 * 60
+
+async function cancelScheduled(ctx: MutationCtx, reminder: Doc<'reminders'>) {
+  if (!reminder.scheduledId) return
+  const scheduled = await ctx.db.system.get(reminder.scheduledId)
+  if (scheduled?.state.kind === 'pending') {
+    await ctx.scheduler.cancel(reminder.scheduledId)
+  }
+}
+
+function getRemindAt(minutesBefore: number, dateTime: number) {
+  return dateTime - minutesBefore * 60 * 1000
+}
+
+// Points a reminder at its item's current date. A reminder whose time has
+// already passed fires right away while the item is still ahead, and stays
+// quiet once the item's date has gone by too.
+async function scheduleReminder(
+  ctx: MutationCtx,
+  reminder: Doc<'reminders'>,
+  dateTime: number | undefined,
+) {
+  await cancelScheduled(ctx, reminder)
+
+  const remindAt =
+    dateTime === undefined
+      ? undefined
+      : getRemindAt(reminder.minutesBefore, dateTime)
+  const scheduledId =
+    remindAt !== undefined && dateTime !== undefined && dateTime > Date.now()
+      ? await ctx.scheduler.runAt(
+          Math.max(remindAt, Date.now()),
+          internal.reminders.fireReminder,
+          { reminderId: reminder._id },
+        )
+      : undefined
+
+  await ctx.db.patch(reminder._id, {
+    remindAt,
+    scheduledId,
+    sentAt: undefined,
+  })
+}
+
+// Called whenever an item's date changes, including a repeating todo moving
+// on to its next occurrence
+export async function rescheduleItemReminders(
+  ctx: MutationCtx,
+  item: Doc<'items'>,
+) {
+  const reminders = await ctx.db
+    .query('reminders')
+    .withIndex('by_item', (q) => q.eq('itemId', item._id))
+    .collect()
+  for (const reminder of reminders) {
+    await scheduleReminder(ctx, reminder, item.dateTime)
+  }
+}
+
+// Gives an unstacked copy the same reminders as the item it came from
+export async function copyItemReminders(
+  ctx: MutationCtx,
+  fromItemId: Id<'items'>,
+  copy: Pick<Doc<'items'>, '_id' | 'chestId' | 'dateTime'>,
+) {
+  const reminders = await ctx.db
+    .query('reminders')
+    .withIndex('by_item', (q) => q.eq('itemId', fromItemId))
+    .collect()
+  for (const reminder of reminders) {
+    const reminderId = await ctx.db.insert('reminders', {
+      itemId: copy._id,
+      chestId: copy.chestId,
+      userId: reminder.userId,
+      minutesBefore: reminder.minutesBefore,
+      remindAt: reminder.remindAt,
+      sentAt: reminder.sentAt,
+    })
+    // One that already went off isn't sent again for the copy
+    if (reminder.sentAt === undefined) {
+      await scheduleReminder(
+        ctx,
+        (await ctx.db.get(reminderId))!,
+        copy.dateTime,
+      )
+    }
+  }
+}
+
+export async function deleteReminders(
+  ctx: MutationCtx,
+  reminders: Array<Doc<'reminders'>>,
+) {
+  for (const reminder of reminders) {
+    await cancelScheduled(ctx, reminder)
+    await ctx.db.delete(reminder._id)
+  }
+}
+
+export async function deleteItemReminders(
+  ctx: MutationCtx,
+  itemId: Id<'items'>,
+) {
+  const reminders = await ctx.db
+    .query('reminders')
+    .withIndex('by_item', (q) => q.eq('itemId', itemId))
+    .collect()
+  await deleteReminders(ctx, reminders)
+}
+
+// The current user's reminders for an item; reminders are personal, so
+// collaborators each set their own
+export const getItemReminders = query({
+  args: { itemId: v.id('items') },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const reminders = await ctx.db
+      .query('reminders')
+      .withIndex('by_item_and_user', (q) =>
+        q.eq('itemId', args.itemId).eq('userId', user._id),
+      )
+      .collect()
+    return reminders.sort((a, b) => b.minutesBefore - a.minutesBefore)
+  },
+})
+
+export const addReminder = mutation({
+  args: { itemId: v.id('items'), minutesBefore: v.number() },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const item = await ctx.db.get(args.itemId)
+
+    if (!item) {
+      throw new Error('Item not found')
+    }
+
+    const permission = await getUserPermission(ctx, item.chestId, user._id)
+    if (!permission) {
+      throw new Error('Access denied')
+    }
+
+    if (item.dateTime === undefined) {
+      throw new ConvexError('Set a date on the item before adding a reminder')
+    }
+    if (
+      !Number.isInteger(args.minutesBefore) ||
+      args.minutesBefore < 0 ||
+      args.minutesBefore > MAX_MINUTES_BEFORE
+    ) {
+      throw new ConvexError('Reminders can be set up to a week before')
+    }
+    if (getRemindAt(args.minutesBefore, item.dateTime) <= Date.now()) {
+      throw new ConvexError(
+        "That reminder's time has already passed. Pick a shorter one.",
+      )
+    }
+
+    const existing = await ctx.db
+      .query('reminders')
+      .withIndex('by_item_and_user', (q) =>
+        q.eq('itemId', args.itemId).eq('userId', user._id),
+      )
+      .filter((q) => q.eq(q.field('minutesBefore'), args.minutesBefore))
+      .first()
+    if (existing) {
+      return existing._id
+    }
+
+    const reminderId = await ctx.db.insert('reminders', {
+      itemId: args.itemId,
+      chestId: item.chestId,
+      userId: user._id,
+      minutesBefore: args.minutesBefore,
+    })
+    await scheduleReminder(ctx, (await ctx.db.get(reminderId))!, item.dateTime)
+    return reminderId
+  },
+})
+
+export const removeReminder = mutation({
+  args: { reminderId: v.id('reminders') },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const reminder = await ctx.db.get(args.reminderId)
+
+    if (!reminder || reminder.userId !== user._id) {
+      throw new Error('Reminder not found')
+    }
+
+    await deleteReminders(ctx, [reminder])
+  },
+})
+
+function describeReminder(minutesBefore: number) {
+  if (minutesBefore === 0) return 'Due now'
+  if (minutesBefore % (24 * 60) === 0) {
+    const days = minutesBefore / (24 * 60)
+    return `Due in ${days} day${days === 1 ? '' : 's'}`
+  }
+  if (minutesBefore % 60 === 0) {
+    const hours = minutesBefore / 60
+    return `Due in ${hours} hour${hours === 1 ? '' : 's'}`
+  }
+  return `Due in ${minutesBefore} minutes`
+}
+
+function getItemTitle(item: Doc<'items'>) {
+  return (
+    item.label ||
+    item.title ||
+    item.filename ||
+    item.content?.split('\n')[0].slice(0, 80) ||
+    item.url ||
+    'Untitled item'
+  )
+}
+
+export const fireReminder = internalMutation({
+  args: { reminderId: v.id('reminders') },
+  handler: async (ctx, args) => {
+    const reminder = await ctx.db.get(args.reminderId)
+    if (!reminder || reminder.sentAt !== undefined) return
+
+    // The user may have lost access to the chest since setting it
+    const item = await ctx.db.get(reminder.itemId)
+    const permission = item
+      ? await getUserPermission(ctx, item.chestId, reminder.userId)
+      : null
+    if (!item || !permission) {
+      await ctx.db.delete(reminder._id)
+      return
+    }
+    // Nothing to remind of once the todo is done
+    if (item.completed) return
+
+    const notificationId = await ctx.db.insert('notifications', {
+      userId: reminder.userId,
+      chestId: item.chestId,
+      itemId: item._id,
+      title: getItemTitle(item),
+      body: describeReminder(reminder.minutesBefore),
+    })
+    await ctx.db.patch(reminder._id, {
+      sentAt: Date.now(),
+      scheduledId: undefined,
+    })
+
+    const subscription = await ctx.db
+      .query('pushSubscriptions')
+      .withIndex('by_user', (q) => q.eq('userId', reminder.userId))
+      .first()
+    if (subscription) {
+      await ctx.scheduler.runAfter(0, internal.push.sendPush, {
+        notificationId,
+      })
+    }
+  },
+})
@@ -7,6 +7,16 @@ const applicationTables = {
     name: v.string(),
     ownerId: v.id("users"),
     description: v.optional(v.string()),
+    // Slot limit (27 or 54); unset chests hold any number of items
+    capacity: v.optional(v.number()),
+    // Bytes of uploaded files stored in this chest
+    storageUsed: v.optional(v.number()),
+    // Remove EXIF/GPS data from uploaded images; unset means on
+    stripImageMetadata: v.optional(v.boolean()),
+    // Upload policy: MIME types like "image/*" (unset allows any) and a size
+    // limit in bytes under the global maximum
+    allowedFileTypes: v.optional(v.array(v.string())),
+    maxFileSize: v.optional(v.number()),
   })
     .index("by_owner", ["ownerId"]),
 
@@ -41,6 +51,10 @@ const applicationTables = {
       v.literal("file")
     ),
     stackSize: v.number(),
+    // Duplicates in a chest share this key and stack onto one row
+    stackKey: v.optional(v.string()),
+    // Position in the inventory slot grid
+    slot: v.optional(v.number()),
     createdBy: v.id("users"),
     
     // New fields
@@ -52,6 +66,21 @@ const applicationTables = {
     title: v.optional(v.string()),
     favicon: v.optional(v.string()),
     preview: v.optional(v.string()),
+    description: v.optional(v.string()),
+    siteName: v.optional(v.string()),
+    previewStatus: v.optional(
+      v.union(v.literal("pending"), v.literal("ready"), v.literal("failed"))
+    ),
+    embedType: v.optional(
+      v.union(
+        v.literal("video"),
+        v.literal("audio"),
+        v.literal("code"),
+        v.literal("social")
+      )
+    ),
+    embedProvider: v.optional(v.string()),
+    embedUrl: v.optional(v.string()),
     
     // Note fields
     content: v.optional(v.string()),
@@ -59,14 +88,147 @@ const applicationTables = {
     // Todo fields
     label: v.optional(v.string()),
     completed: v.optional(v.boolean()),
-    
+    // RRULE subset, see recurrence.ts; dateTime is the current occurrence
+    recurrence: v.optional(v.string()),
+    // IANA zone whose wall-clock time the occurrences keep
+    timeZone: v.optional(v.string()),
+    // Ordered sub-steps, each ticked off on its own
+    checklist: v.optional(
+      v.array(
+        v.object({
+          id: v.string(),
+          label: v.string(),
+          completed: v.boolean(),
+        })
+      )
+    ),
+
     // File/Image fields
     storageId: v.optional(v.id("_storage")),
     filename: v.optional(v.string()),
     mimeType: v.optional(v.string()),
     fileSize: v.optional(v.number()),
+    // Hex SHA-256 of the stored bytes
+    contentHash: v.optional(v.string()),
+
+    // Image metadata, filled in by images.processImage
+    thumbnailId: v.optional(v.id("_storage")),
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+    dominantColor: v.optional(v.string()),
+    blurhash: v.optional(v.string()),
+    // Set once EXIF, XMP and IPTC data were removed from the stored file
+    metadataStripped: v.optional(v.boolean()),
+
+    // File previews, filled in by filePreviews.processFile; PDFs also use thumbnailId
+    pageCount: v.optional(v.number()),
+    textExcerpt: v.optional(v.string()),
+
+    // Search fields
+    searchText: v.optional(v.string()),
+  })
+    .index("by_chest", ["chestId"])
+    .index("by_chest_and_type", ["chestId", "type"])
+    .index("by_chest_and_dateTime", ["chestId", "dateTime"])
+    .index("by_chest_and_type_and_dateTime", ["chestId", "type", "dateTime"])
+    .index("by_chest_and_stackKey", ["chestId", "stackKey"])
+    .index("by_chest_and_slot", ["chestId", "slot"])
+    .index("by_storageId", ["storageId"])
+    .index("by_thumbnailId", ["thumbnailId"])
+    .index("by_contentHash", ["contentHash"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["chestId", "type"],
+    }),
+
+  // How many items in a chest carry each tag, kept by tags.adjustChestTags
+  chestTags: defineTable({
+    chestId: v.id("chests"),
+    tag: v.string(),
+    count: v.number(),
+  })
+    .index("by_chest_and_tag", ["chestId", "tag"]),
+
+  // Items and file bytes per type in a chest, kept by quotas.adjustChestUsage
+  chestUsage: defineTable({
+    chestId: v.id("chests"),
+    type: v.union(
+      v.literal("link"),
+      v.literal("note"),
+      v.literal("todo"),
+      v.literal("image"),
+      v.literal("file")
+    ),
+    // Stacked copies count one each
+    count: v.number(),
+    bytes: v.number(),
   })
+    .index("by_chest_and_type", ["chestId", "type"]),
+
+  // Shared across chests and users; one row per normalized URL
+  linkPreviews: defineTable({
+    normalizedUrl: v.string(),
+    title: v.optional(v.string()),
+    description: v.optional(v.string()),
+    image: v.optional(v.string()),
+    siteName: v.optional(v.string()),
+    favicon: v.optional(v.string()),
+    // Player URL from the provider's oEmbed endpoint
+    embedUrl: v.optional(v.string()),
+    fetchedAt: v.number(),
+  })
+    .index("by_normalizedUrl", ["normalizedUrl"]),
+
+  // One row per completed occurrence of a repeating todo
+  todoCompletions: defineTable({
+    itemId: v.id("items"),
+    chestId: v.id("chests"),
+    // The occurrence's date when it was completed
+    dateTime: v.optional(v.number()),
+    completedAt: v.number(),
+    completedBy: v.id("users"),
+  })
+    .index("by_item", ["itemId"])
     .index("by_chest", ["chestId"]),
+
+  // A user's reminder for a dated item, fired by reminders.fireReminder
+  reminders: defineTable({
+    itemId: v.id("items"),
+    chestId: v.id("chests"),
+    userId: v.id("users"),
+    // 0 is at the item's dateTime
+    minutesBefore: v.number(),
+    // Unset while the item has no date
+    remindAt: v.optional(v.number()),
+    scheduledId: v.optional(v.id("_scheduled_functions")),
+    sentAt: v.optional(v.number()),
+  })
+    .index("by_item", ["itemId"])
+    .index("by_chest", ["chestId"])
+    .index("by_item_and_user", ["itemId", "userId"]),
+
+  // In-app notifications, newest shown first
+  notifications: defineTable({
+    userId: v.id("users"),
+    chestId: v.id("chests"),
+    itemId: v.optional(v.id("items")),
+    title: v.string(),
+    body: v.optional(v.string()),
+    readAt: v.optional(v.number()),
+  })
+    .index("by_user", ["userId"])
+    .index("by_user_and_readAt", ["userId", "readAt"])
+    .index("by_chest", ["chestId"]),
+
+  // Web Push endpoints, one per browser a user turned push on in
+  pushSubscriptions: defineTable({
+    userId: v.id("users"),
+    endpoint: v.string(),
+    p256dh: v.string(),
+    auth: v.string(),
+  })
+    .index("by_user", ["userId"])
+    .index("by_endpoint", ["endpoint"]),
 };
 
 export default defineSchema({
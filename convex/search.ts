@@ -0,0 +1,155 @@
+import { v } from 'convex/values'
+import { internalMutation, query } from './_generated/server'
+import { internal } from './_generated/api'
+import { getLoggedInUser, getUserPermission } from './access'
+import type { Doc } from './_generated/dataModel'
+
+const SNIPPET_LENGTH = 160
+const SNIPPET_LEAD = 40
+const RESULTS_PER_CHEST = 10
+
+type SearchableItem = Pick<
+  Doc<'items'>,
+  'title' | 'content' | 'label' | 'filename' | 'tags' | 'checklist'
+>
+
+export type SnippetSegment = { text: string; highlight: boolean }
+
+// A search index covers a single field, so every searchable field is folded into one
+export function buildSearchText(item: SearchableItem) {
+  return [
+    item.title,
+    item.content,
+    item.label,
+    item.filename,
+    ...(item.tags || []),
+    ...(item.checklist || []).map((entry) => entry.label),
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Cut a window of text around the first matching term and mark every term inside it
+export function getSearchSnippet(item: SearchableItem, search: string) {
+  const text = buildSearchText(item).replace(/\s+/g, ' ')
+  const terms = search.trim().split(/\s+/).filter(Boolean)
+
+  const ranges: Array<[number, number]> = []
+  for (const term of terms) {
+    // Search matches whole words, plus prefixes, so only highlight at word starts
+    const regex = new RegExp(
+      `(^|[^\\p{L}\\p{N}])(${escapeRegExp(term)})`,
+      'giu',
+    )
+    for (const match of text.matchAll(regex)) {
+      const start = match.index + match[1].length
+      ranges.push([start, start + match[2].length])
+    }
+  }
+
+  if (ranges.length === 0) return null
+  ranges.sort((a, b) => a[0] - b[0])
+
+  const start = Math.max(0, ranges[0][0] - SNIPPET_LEAD)
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+
+  const segments: Array<SnippetSegment> = []
+  let cursor = start
+  for (const [rangeStart, rangeEnd] of ranges) {
+    if (rangeStart < cursor || rangeStart >= end) continue
+    if (rangeStart > cursor) {
+      segments.push({ text: text.slice(cursor, rangeStart), highlight: false })
+    }
+    cursor = Math.min(rangeEnd, end)
+    segments.push({ text: text.slice(rangeStart, cursor), highlight: true })
+  }
+  if (cursor < end) {
+    segments.push({ text: text.slice(cursor, end), highlight: false })
+  }
+
+  if (start > 0) segments.unshift({ text: '…', highlight: false })
+  if (end < text.length) segments.push({ text: '…', highlight: false })
+
+  return segments
+}
+
+export const searchMyItems = query({
+  args: { search: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getLoggedInUser(ctx)
+    const search = args.search.trim()
+    if (!search) return []
+
+    // Same chests as listMyChests: owned plus shared through chestPermissions
+    const ownedChests = await ctx.db
+      .query('chests')
+      .withIndex('by_owner', (q) => q.eq('ownerId', user._id))
+      .collect()
+    const permissions = await ctx.db
+      .query('chestPermissions')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect()
+    const sharedChests = await Promise.all(
+      permissions.map((perm) => ctx.db.get(perm.chestId)),
+    )
+
+    const groups = await Promise.all(
+      [...ownedChests, ...sharedChests].map(async (chest) => {
+        if (!chest) return null
+
+        const role = await getUserPermission(ctx, chest._id, user._id)
+        if (!role) return null
+
+        const items = await ctx.db
+          .query('items')
+          .withSearchIndex('search_text', (q) =>
+            q.search('searchText', search).eq('chestId', chest._id),
+          )
+          .take(RESULTS_PER_CHEST)
+        if (items.length === 0) return null
+
+        return {
+          chest: { _id: chest._id, name: chest.name, role },
+          items: items.map((item) => ({
+            _id: item._id,
+            type: item.type,
+            title: item.title,
+            label: item.label,
+            content: item.content,
+            filename: item.filename,
+            tags: item.tags,
+            searchSnippet: getSearchSnippet(item, search),
+          })),
+        }
+      }),
+    )
+
+    return groups.filter((group) => group !== null)
+  },
+})
+
+// Fills searchText for items created before the search index existed.
+// Run once with `npx convex run search:backfillSearchText '{"cursor": null}'`
+export const backfillSearchText = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args): Promise<null> => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query('items')
+      .paginate({ numItems: 100, cursor: args.cursor })
+
+    for (const item of page) {
+      await ctx.db.patch(item._id, { searchText: buildSearchText(item) })
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.search.backfillSearchText, {
+        cursor: continueCursor,
+      })
+    }
+    return null
+  },
+})
@@ -0,0 +1,68 @@
+import { ConvexError } from 'convex/values'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import type { Doc, Id } from './_generated/dataModel'
+
+// Chests without a capacity still lay out a double chest's worth of slots
+const DEFAULT_SLOT_COUNT = 54
+
+export function getSlotCount(chest: Doc<'chests'>) {
+  return chest.capacity ?? DEFAULT_SLOT_COUNT
+}
+
+export async function getSlottedItems(
+  ctx: QueryCtx | MutationCtx,
+  chestId: Id<'chests'>,
+  slotCount: number,
+) {
+  // Unslotted items sort before every number, so bound the range from below
+  return await ctx.db
+    .query('items')
+    .withIndex('by_chest_and_slot', (q) =>
+      q.eq('chestId', chestId).gte('slot', 0).lt('slot', slotCount),
+    )
+    .collect()
+}
+
+// The lowest `count` free slots, fewer if the grid runs out
+export async function findFreeSlots(
+  ctx: QueryCtx | MutationCtx,
+  chestId: Id<'chests'>,
+  slotCount: number,
+  count: number,
+) {
+  const slotted = await getSlottedItems(ctx, chestId, slotCount)
+  const taken = new Set(slotted.map((item) => item.slot))
+
+  const free: Array<number> = []
+  for (let slot = 0; slot < slotCount && free.length < count; slot++) {
+    if (!taken.has(slot)) free.push(slot)
+  }
+  return free
+}
+
+export async function countChestItems(
+  ctx: QueryCtx | MutationCtx,
+  chestId: Id<'chests'>,
+  limit: number,
+) {
+  const items = await ctx.db
+    .query('items')
+    .withIndex('by_chest', (q) => q.eq('chestId', chestId))
+    .take(limit)
+  return items.length
+}
+
+export async function assertChestHasRoom(
+  ctx: QueryCtx | MutationCtx,
+  chest: Doc<'chests'>,
+  adding: number,
+) {
+  if (chest.capacity === undefined) return
+
+  const count = await countChestItems(ctx, chest._id, chest.capacity)
+  if (count + adding > chest.capacity) {
+    throw new ConvexError(
+      `"${chest.name}" is full: all ${chest.capacity} slots are in use. Remove or stack items to make room.`,
+    )
+  }
+}
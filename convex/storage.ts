@@ -0,0 +1,64 @@
+import { v } from 'convex/values'
+import { internalMutation } from './_generated/server'
+import { internal } from './_generated/api'
+import type { MutationCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+
+// Uploads get this long to be attached to an item before the sweeper treats
+// them as abandoned
+const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000
+const SWEEP_BATCH_SIZE = 100
+
+// A blob is in use while any item stores it as its file or its thumbnail
+async function isReferenced(ctx: MutationCtx, storageId: Id<'_storage'>) {
+  const item = await ctx.db
+    .query('items')
+    .withIndex('by_storageId', (q) => q.eq('storageId', storageId))
+    .first()
+  if (item) return true
+
+  const thumbnailOf = await ctx.db
+    .query('items')
+    .withIndex('by_thumbnailId', (q) => q.eq('thumbnailId', storageId))
+    .first()
+  return thumbnailOf !== null
+}
+
+// Unstacked copies share one blob, so only the last item to go takes it along.
+// Call after the item rows have been deleted; returns whether the blob went.
+export async function deleteStorageIfUnreferenced(
+  ctx: MutationCtx,
+  storageId: Id<'_storage'>,
+) {
+  if (await isReferenced(ctx, storageId)) return false
+  if (!(await ctx.db.system.get(storageId))) return false
+
+  await ctx.storage.delete(storageId)
+  return true
+}
+
+// Walks every stored file and removes the ones no item points at, including
+// uploads whose addItem never happened. Runs from crons.ts.
+export const sweepOrphanedFiles = internalMutation({
+  args: { cursor: v.optional(v.union(v.string(), v.null())) },
+  handler: async (ctx, args): Promise<null> => {
+    const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS
+    const { page, isDone, continueCursor } = await ctx.db.system
+      .query('_storage')
+      .paginate({ numItems: SWEEP_BATCH_SIZE, cursor: args.cursor ?? null })
+
+    for (const file of page) {
+      if (file._creationTime > cutoff) continue
+      if (!(await isReferenced(ctx, file._id))) {
+        await ctx.storage.delete(file._id)
+      }
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.storage.sweepOrphanedFiles, {
+        cursor: continueCursor,
+      })
+    }
+    return null
+  },
+})
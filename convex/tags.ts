@@ -0,0 +1,96 @@
+import { v } from 'convex/values'
+import { internalMutation } from './_generated/server'
+import { internal } from './_generated/api'
+import type { MutationCtx, QueryCtx } from './_generated/server'
+import type { Id } from './_generated/dataModel'
+
+// Tags used in a chest, in name order
+export async function getChestTagNames(
+  ctx: QueryCtx | MutationCtx,
+  chestId: Id<'chests'>,
+) {
+  const rows = await ctx.db
+    .query('chestTags')
+    .withIndex('by_chest_and_tag', (q) => q.eq('chestId', chestId))
+    .collect()
+  return rows.map((row) => row.tag)
+}
+
+// Keeps the per-chest tag counts in step with an item's tags; called with the
+// tags before and after whenever an item is added, retagged or deleted
+export async function adjustChestTags(
+  ctx: MutationCtx,
+  chestId: Id<'chests'>,
+  before: Array<string> | undefined,
+  after: Array<string> | undefined,
+) {
+  const deltas = new Map<string, number>()
+  for (const tag of new Set(before)) {
+    deltas.set(tag, (deltas.get(tag) ?? 0) - 1)
+  }
+  for (const tag of new Set(after)) {
+    deltas.set(tag, (deltas.get(tag) ?? 0) + 1)
+  }
+
+  for (const [tag, delta] of deltas) {
+    if (delta === 0) continue
+    const row = await ctx.db
+      .query('chestTags')
+      .withIndex('by_chest_and_tag', (q) =>
+        q.eq('chestId', chestId).eq('tag', tag),
+      )
+      .first()
+    const count = (row?.count ?? 0) + delta
+    if (row && count <= 0) {
+      await ctx.db.delete(row._id)
+    } else if (row) {
+      await ctx.db.patch(row._id, { count })
+    } else if (count > 0) {
+      await ctx.db.insert('chestTags', { chestId, tag, count })
+    }
+  }
+}
+
+export async function deleteChestTags(ctx: MutationCtx, chestId: Id<'chests'>) {
+  const rows = await ctx.db
+    .query('chestTags')
+    .withIndex('by_chest_and_tag', (q) => q.eq('chestId', chestId))
+    .collect()
+  await Promise.all(rows.map((row) => ctx.db.delete(row._id)))
+}
+
+// Builds the tag counts for chests created before they were tracked.
+// Run once with `npx convex run tags:backfillChestTags '{"cursor": null}'`
+export const backfillChestTags = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args): Promise<null> => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query('chests')
+      .paginate({ numItems: 20, cursor: args.cursor })
+
+    for (const chest of page) {
+      const items = await ctx.db
+        .query('items')
+        .withIndex('by_chest', (q) => q.eq('chestId', chest._id))
+        .collect()
+
+      const counts = new Map<string, number>()
+      for (const item of items) {
+        for (const tag of new Set(item.tags)) {
+          counts.set(tag, (counts.get(tag) ?? 0) + 1)
+        }
+      }
+      await deleteChestTags(ctx, chest._id)
+      for (const [tag, count] of counts) {
+        await ctx.db.insert('chestTags', { chestId: chest._id, tag, count })
+      }
+    }
+
+    if (!isDone) {
+      await ctx.scheduler.runAfter(0, internal.tags.backfillChestTags, {
+        cursor: continueCursor,
+      })
+    }
+    return null
+  },
+})
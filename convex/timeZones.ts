@@ -0,0 +1,108 @@
+// Wall-clock dates and times in an IANA time zone, shared by the recurrence
+// rules here and the due date parser in the client
+
+export interface CalendarDate {
+  year: number
+  month: number
+  day: number
+}
+
+export interface WallTime {
+  hour: number
+  minute: number
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function getZonedParts(timestamp: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(timestamp)
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value)
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+  }
+}
+
+// Milliseconds the zone is ahead of UTC at that instant
+function getZoneOffset(timestamp: number, timeZone: string) {
+  const parts = getZonedParts(timestamp, timeZone)
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+  )
+  return asUtc - Math.floor(timestamp / 60000) * 60000
+}
+
+export function toTimestamp(
+  date: CalendarDate,
+  time: WallTime,
+  timeZone: string,
+) {
+  const asUtc = Date.UTC(
+    date.year,
+    date.month - 1,
+    date.day,
+    time.hour,
+    time.minute,
+  )
+  // The offset can differ on either side of a DST change; check it again
+  const guess = asUtc - getZoneOffset(asUtc, timeZone)
+  return asUtc - getZoneOffset(guess, timeZone)
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  const result = new Date(Date.UTC(date.year, date.month - 1, date.day + days))
+  return {
+    year: result.getUTCFullYear(),
+    month: result.getUTCMonth() + 1,
+    day: result.getUTCDate(),
+  }
+}
+
+export function getDaysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate()
+}
+
+export function addMonths(date: CalendarDate, months: number): CalendarDate {
+  const total = date.year * 12 + date.month - 1 + months
+  const year = Math.floor(total / 12)
+  const month = (total % 12) + 1
+  // Jan 31 + 1 month is the last day of February
+  return { year, month, day: Math.min(date.day, getDaysInMonth(year, month)) }
+}
+
+// 0 is Sunday, as with Date.getDay()
+export function getWeekday(date: CalendarDate) {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay()
+}
+
+export function isValidDate({ year, month, day }: CalendarDate) {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+export function compareDates(a: CalendarDate, b: CalendarDate) {
+  return a.year - b.year || a.month - b.month || a.day - b.day
+}
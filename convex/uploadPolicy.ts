@@ -0,0 +1,78 @@
+import { ConvexError } from 'convex/values'
+import { formatBytes } from './format'
+import type { Doc } from './_generated/dataModel'
+
+const MB = 1024 * 1024
+// No single upload may be larger than this, whatever the chest allows
+export const MAX_FILE_SIZE = 100 * MB
+
+// Stored files without a Content-Type are treated as opaque bytes
+const UNKNOWN_CONTENT_TYPE = 'application/octet-stream'
+
+const MIME_PATTERN = /^[a-z0-9.+-]+\/([a-z0-9.+-]+|\*)$/
+
+// Cleans up a chest's allowed types as typed in the settings: lowercase,
+// trimmed, deduplicated, and each one `type/subtype` or `type/*`
+export function normalizeAllowedFileTypes(patterns: Array<string>) {
+  const normalized = [
+    ...new Set(patterns.map((pattern) => pattern.trim().toLowerCase())),
+  ].filter(Boolean)
+
+  const invalid = normalized.find((pattern) => !MIME_PATTERN.test(pattern))
+  if (invalid) {
+    throw new ConvexError(
+      `"${invalid}" is not a file type. Use a MIME type like "application/pdf" or "image/*".`,
+    )
+  }
+  return normalized
+}
+
+export function getMaxFileSize(chest: Doc<'chests'>) {
+  return Math.min(chest.maxFileSize ?? MAX_FILE_SIZE, MAX_FILE_SIZE)
+}
+
+function matchesFileType(contentType: string, pattern: string) {
+  if (pattern.endsWith('/*')) {
+    return contentType.startsWith(pattern.slice(0, -1))
+  }
+  return contentType === pattern
+}
+
+// Checks a file against the chest's policy. Called before the upload with what
+// the client reports, and again in addItem with what storage actually holds.
+export function assertUploadAllowed(
+  chest: Doc<'chests'>,
+  file: {
+    itemType: 'image' | 'file'
+    contentType?: string
+    size: number
+    filename?: string
+  },
+) {
+  const name = file.filename ? `"${file.filename}"` : 'This file'
+  const contentType =
+    file.contentType?.toLowerCase().split(';')[0].trim() || UNKNOWN_CONTENT_TYPE
+
+  const maxFileSize = getMaxFileSize(chest)
+  if (file.size > maxFileSize) {
+    throw new ConvexError(
+      `${name} is ${formatBytes(file.size)}; files in "${chest.name}" can be at most ${formatBytes(maxFileSize)}.`,
+    )
+  }
+
+  if (file.itemType === 'image' && !contentType.startsWith('image/')) {
+    throw new ConvexError(`${name} is ${contentType}, not an image.`)
+  }
+
+  const allowed = chest.allowedFileTypes
+  if (
+    allowed &&
+    allowed.length > 0 &&
+    !allowed.some((pattern) => matchesFileType(contentType, pattern))
+  ) {
+    throw new ConvexError(
+      `"${chest.name}" only accepts ${allowed.join(', ')}; ${name} is ${contentType}.`,
+    )
+  }
+  return contentType
+}
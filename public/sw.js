@@ -0,0 +1,28 @@
+// Service worker for reminder push notifications (see convex/push.ts). It
+// only shows pushes and opens the item when one is clicked; nothing is cached.
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {}
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'echest', {
+      body: data.body,
+      icon: '/android-chrome-192x192.png',
+      data: { url: data.url || '/' },
+    }),
+  )
+})
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close()
+  const url = new URL(event.notification.data.url, self.location.origin).href
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: 'window', includeUncontrolled: true })
+      .then((windows) => {
+        const open = windows.find((client) => client.url === url)
+        if (open) return open.focus()
+        return self.clients.openWindow(url)
+      }),
+  )
+})
@@ -1,20 +1,76 @@
 // src/components/ChatInput.tsx
-import { useState, useRef, type KeyboardEvent, type ChangeEvent } from 'react'
-import { useMutation } from 'convex/react'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
 import { api } from '@@/convex/_generated/api'
-import type { Id } from '@@/convex/_generated/dataModel'
 import { toast } from 'sonner'
-import { Button } from '@/components/ui/button'
-import { Textarea } from '@/components/ui/textarea'
-import { Badge } from '@/components/ui/badge'
+import { describeRecurrence } from '@@/convex/recurrence'
 import {
-  Send,
-  Paperclip,
+  ArrowRight,
+  Calendar,
+  CheckSquare,
+  FileText,
   Image as ImageIcon,
-  X,
   Link2,
   Loader2,
+  Paperclip,
+  Repeat,
+  Send,
+  Upload,
+  X,
 } from 'lucide-react'
+import { UploadQueue } from './UploadQueue'
+import { CommandMenu } from './CommandMenu'
+import type { ChangeEvent, ClipboardEvent, KeyboardEvent } from 'react'
+import type { Id } from '@@/convex/_generated/dataModel'
+import type { CommandMenuOption } from './CommandMenu'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { getErrorMessage } from '@/lib/errors'
+import { useMoveTargets } from '@/lib/chests'
+import { useUploadManager } from '@/lib/uploadManager'
+import { htmlToMarkdown } from '@/lib/markdown'
+import { formatDueDate, getLocalTimeZone } from '@/lib/dueDates'
+import {
+  findChestByName,
+  formatChestArgument,
+  getCommandQuery,
+  getCommandSuggestions,
+  parseMessage,
+} from '@/lib/commands'
+
+const URL_REGEX = /https?:\/\/[^\s<>"]+/g
+
+// Trailing punctuation usually ends the sentence, not the URL; a closing
+// bracket stays when the URL opened one, as in Wikipedia links
+function trimUrl(url: string) {
+  let trimmed = url.replace(/[.,;:!?'"]+$/, '')
+  while (
+    /[)\]]$/.test(trimmed) &&
+    (trimmed.match(/[([]/g) || []).length <
+      (trimmed.match(/[)\]]/g) || []).length
+  ) {
+    trimmed = trimmed.slice(0, -1).replace(/[.,;:!?'"]+$/, '')
+  }
+  return trimmed
+}
+
+function extractUrls(text: string) {
+  return [...new Set(Array.from(text.match(URL_REGEX) || [], trimUrl))]
+}
+
+function removeUrls(text: string) {
+  return text.replace(URL_REGEX, '')
+}
+
+function getUrlLabel(url: string) {
+  try {
+    const { hostname, pathname } = new URL(url)
+    return hostname.replace(/^www\./, '') + (pathname === '/' ? '' : pathname)
+  } catch {
+    return url
+  }
+}
 
 interface ChatInputProps {
   chestId: Id<'chests'>
@@ -22,34 +78,73 @@ interface ChatInputProps {
 
 export function ChatInput({ chestId }: ChatInputProps) {
   const addItem = useMutation(api.items.addItem)
-  const generateUploadUrl = useMutation(api.items.generateUploadUrl)
+  const uploadManager = useUploadManager(chestId)
+  const chest = useQuery(api.chests.getChest, { chestId })
 
   const [input, setInput] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [selectedFiles, setSelectedFiles] = useState<File[]>([])
-  const [detectedTags, setDetectedTags] = useState<string[]>([])
-  const [detectedUrl, setDetectedUrl] = useState<string | null>(null)
+  const [selectedFiles, setSelectedFiles] = useState<Array<File>>([])
+  const [detectedUrls, setDetectedUrls] = useState<Array<string>>([])
+  // Detected links the user unticked in the preview strip
+  const [deselectedUrls, setDeselectedUrls] = useState<Array<string>>([])
+  // Set when formatted text was pasted, so the message is saved as a note even
+  // though its markdown contains links; cleared with the text it came with
+  const [isRichNote, setIsRichNote] = useState(false)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  const [caret, setCaret] = useState(0)
+  const [activeOption, setActiveOption] = useState(0)
+  const [isMenuDismissed, setIsMenuDismissed] = useState(false)
+
+  // Slash commands and #tags, and dates written out in todos; see
+  // lib/commands
+  const parsed = useMemo(() => parseMessage(input), [input])
+  // Links in a pasted note stay part of it rather than becoming link items
+  const savesAsRichNote = isRichNote && !parsed.type
+
+  const moveTargets = useMoveTargets(chestId)
+
+  const commandQuery = isMenuDismissed ? null : getCommandQuery(input, caret)
+  const menuOptions: Array<CommandMenuOption> = !commandQuery
+    ? []
+    : commandQuery.kind === 'command'
+      ? getCommandSuggestions(commandQuery.query).map((command) => ({
+          key: command.name,
+          label: `/${command.name}`,
+          value: command.name,
+          hint: command.args,
+          description: command.description,
+        }))
+      : moveTargets
+          .filter((c) =>
+            c.name.toLowerCase().includes(commandQuery.query.toLowerCase()),
+          )
+          .slice(0, 8)
+          .map((c) => ({ key: c._id, label: c.name, value: c.name }))
 
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
-  // Parse input for tags (#tag) and URLs
+  // Links get their own preview strip; tags and commands come from `parsed`
   const parseInput = (text: string) => {
-    // Extract hashtags
-    const tagRegex = /#(\w+)/g
-    const tags = Array.from(text.matchAll(tagRegex)).map((match) => match[1])
-    setDetectedTags([...new Set(tags)])
-
-    // Extract URLs
-    const urlRegex = /(https?:\/\/[^\s]+)/g
-    const urls = text.match(urlRegex)
-    setDetectedUrl(urls ? urls[0] : null)
+    const urls = extractUrls(text)
+    setDetectedUrls(urls)
+    setDeselectedUrls((prev) => prev.filter((url) => urls.includes(url)))
+  }
+
+  const toggleUrl = (url: string) => {
+    setDeselectedUrls((prev) =>
+      prev.includes(url) ? prev.filter((u) => u !== url) : [...prev, url],
+    )
   }
 
   const handleInputChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value
     setInput(value)
     parseInput(value)
+    if (!value.trim()) setIsRichNote(false)
+    setCaret(e.target.selectionStart)
+    setActiveOption(0)
+    setIsMenuDismissed(false)
 
     // Auto-resize textarea
     if (textareaRef.current) {
@@ -58,11 +153,121 @@ export function ChatInput({ chestId }: ChatInputProps) {
     }
   }
 
-  const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
-    const files = Array.from(e.target.files || [])
+  // The paperclip, drops and pastes all attach files the same way; they're
+  // uploaded when the message is sent
+  const attachFiles = (files: Array<File>) => {
     if (files.length > 0) {
       setSelectedFiles((prev) => [...prev, ...files])
+      textareaRef.current?.focus()
+    }
+  }
+
+  const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
+    attachFiles(Array.from(e.target.files || []))
+    e.target.value = ''
+  }
+
+  // Files dropped anywhere on the page are attached. Dragging items around
+  // the inventory doesn't carry files, so it's left alone.
+  useEffect(() => {
+    let depth = 0
+    const hasFiles = (e: DragEvent) =>
+      e.dataTransfer?.types.includes('Files') ?? false
+
+    const handleDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return
+      depth++
+      setIsDraggingFiles(true)
+    }
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return
+      e.preventDefault()
+      e.dataTransfer!.dropEffect = 'copy'
+    }
+    const handleDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return
+      depth = Math.max(0, depth - 1)
+      if (depth === 0) setIsDraggingFiles(false)
+    }
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return
+      e.preventDefault()
+      depth = 0
+      setIsDraggingFiles(false)
+      attachFiles(Array.from(e.dataTransfer!.files))
+    }
+
+    document.addEventListener('dragenter', handleDragEnter)
+    document.addEventListener('dragover', handleDragOver)
+    document.addEventListener('dragleave', handleDragLeave)
+    document.addEventListener('drop', handleDrop)
+    return () => {
+      document.removeEventListener('dragenter', handleDragEnter)
+      document.removeEventListener('dragover', handleDragOver)
+      document.removeEventListener('dragleave', handleDragLeave)
+      document.removeEventListener('drop', handleDrop)
+    }
+  }, [])
+
+  const handlePaste = (e: ClipboardEvent<HTMLTextAreaElement>) => {
+    // Screenshots and copied files arrive as generic names like image.png
+    const files = Array.from(e.clipboardData.files).map((file) =>
+      /^image\.\w+$/.test(file.name)
+        ? new File(
+            [file],
+            `Pasted image ${new Date().toISOString().slice(0, 19).replace('T', ' ')}.${file.name.split('.').pop()}`,
+            { type: file.type },
+          )
+        : file,
+    )
+    if (files.length > 0) {
+      e.preventDefault()
+      attachFiles(files)
+      return
+    }
+
+    const html = e.clipboardData.getData('text/html')
+    const markdown = html ? htmlToMarkdown(html) : null
+    if (!markdown) {
+      // Plain text pasted over everything replaces the formatted note too
+      const textarea = e.currentTarget
+      if (
+        textarea.selectionStart === 0 &&
+        textarea.selectionEnd === input.length
+      ) {
+        setIsRichNote(false)
+      }
+      return
     }
+
+    e.preventDefault()
+    const textarea = e.currentTarget
+    const value =
+      input.slice(0, textarea.selectionStart) +
+      markdown +
+      input.slice(textarea.selectionEnd)
+    setInput(value)
+    parseInput(value)
+    setIsRichNote(true)
+  }
+
+  const applySuggestion = (option: CommandMenuOption) => {
+    if (!commandQuery) return
+    const insert =
+      commandQuery.kind === 'command'
+        ? `/${option.value} `
+        : `${formatChestArgument(option.value)} `
+    const value =
+      input.slice(0, commandQuery.start) + insert + input.slice(caret)
+    const position = commandQuery.start + insert.length
+
+    setInput(value)
+    parseInput(value)
+    setActiveOption(0)
+    setCaret(position)
+    requestAnimationFrame(() =>
+      textareaRef.current?.setSelectionRange(position, position),
+    )
   }
 
   const removeFile = (index: number) => {
@@ -72,80 +277,195 @@ export function ChatInput({ chestId }: ChatInputProps) {
   const handleSubmit = async () => {
     if (!input.trim() && selectedFiles.length === 0) return
 
+    if (parsed.errors.length > 0) {
+      toast.error(parsed.errors[0])
+      return
+    }
+    if (parsed.type && selectedFiles.length > 0) {
+      toast.error(`/${parsed.type} can't be used with attachments.`)
+      return
+    }
+    if (parsed.recurrence && parsed.type !== 'todo') {
+      toast.error('Only todos can repeat; add /todo.')
+      return
+    }
+
+    let target: (typeof moveTargets)[number] | undefined
+    if (parsed.moveTo) {
+      target = findChestByName(moveTargets, parsed.moveTo)
+      if (!target) {
+        toast.error(`You have no other chest named "${parsed.moveTo}".`)
+        return
+      }
+      if (selectedFiles.length > 0) {
+        toast.error('Attachments can only be added to this chest.')
+        return
+      }
+    }
+    const targetChestId = target?._id ?? chestId
+    const addedTo = target ? ` to "${target.name}"` : ''
+
     setIsSubmitting(true)
     try {
-      // Remove hashtags from the content
-      const cleanContent = input.replace(/#\w+/g, '').trim()
+      const cleanContent = parsed.text
+      const tags = parsed.tags.length > 0 ? parsed.tags : undefined
+      const dateTime = parsed.dueDate
+      const urls = detectedUrls.filter((url) => !deselectedUrls.includes(url))
+      const isLink =
+        parsed.type === 'link' ||
+        (!parsed.type && urls.length > 0 && !savesAsRichNote)
 
-      // If there's a URL, create a link item
-      if (detectedUrl && !selectedFiles.length) {
-        await addItem({
-          chestId,
-          type: 'link',
-          url: detectedUrl,
-          title: cleanContent || detectedUrl,
-          tags: detectedTags.length > 0 ? detectedTags : undefined,
-        })
-        toast.success('Link added!')
-      }
-      // If there are files, upload them
-      else if (selectedFiles.length > 0) {
-        for (const file of selectedFiles) {
-          const uploadUrl = await generateUploadUrl()
-          const result = await fetch(uploadUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': file.type },
-            body: file,
-          })
-
-          if (!result.ok) throw new Error('Upload failed')
-
-          const { storageId } = await result.json()
-          const itemType = file.type.startsWith('image/') ? 'image' : 'file'
-
-          await addItem({
+      // If there are files, upload them in the background; the queue shows
+      // their progress and the form is free for the next message
+      if (selectedFiles.length > 0) {
+        void uploadManager.upload(selectedFiles, (file, itemType, storageId) =>
+          addItem({
             chestId,
             type: itemType,
             storageId,
             filename: file.name,
             mimeType: file.type,
             fileSize: file.size,
-            tags: detectedTags.length > 0 ? detectedTags : undefined,
+            tags,
+            dateTime,
             content: cleanContent || undefined,
-          })
+            timeZone: getLocalTimeZone(),
+          }),
+        )
+      }
+      // /todo makes the rest of the message a todo
+      else if (parsed.type === 'todo') {
+        if (!cleanContent) {
+          toast.error('Add what needs doing after /todo.')
+          return
         }
-        toast.success(
-          `${selectedFiles.length} file${selectedFiles.length > 1 ? 's' : ''} uploaded!`,
+        await addItem({
+          chestId: targetChestId,
+          type: 'todo',
+          label: cleanContent,
+          tags,
+          dateTime,
+          recurrence: parsed.recurrence,
+          timeZone: parsed.recurrence ? getLocalTimeZone() : undefined,
+        })
+        toast.success(`Todo added${addedTo}!`)
+      }
+      // One link item per selected URL, each with the message's tags. A lone
+      // link takes the rest of the message as its title; several links get
+      // their titles from the fetched previews.
+      else if (isLink) {
+        if (urls.length === 0) {
+          toast.error('Add a link to send with /link.')
+          return
+        }
+        const title =
+          urls.length === 1
+            ? removeUrls(cleanContent).trim() || undefined
+            : undefined
+        const results = await Promise.allSettled(
+          urls.map((url) =>
+            addItem({
+              chestId: targetChestId,
+              type: 'link',
+              url,
+              title,
+              tags,
+              dateTime,
+            }),
+          ),
+        )
+        const failed = results.flatMap((result, index) =>
+          result.status === 'rejected'
+            ? [{ url: urls[index], reason: result.reason as unknown }]
+            : [],
         )
+        const added = urls.length - failed.length
+
+        if (failed.length === 0) {
+          toast.success(
+            added === 1
+              ? `Link added${addedTo}!`
+              : `${added} links added${addedTo}!`,
+          )
+        } else {
+          toast.error(
+            added > 0
+              ? `${added} of ${urls.length} links added`
+              : `Failed to add ${urls.length === 1 ? 'link' : 'links'}`,
+            {
+              description: failed
+                .map(
+                  ({ url, reason }) =>
+                    `${url}: ${getErrorMessage(reason, 'Failed to add link')}`,
+                )
+                .join('\n'),
+            },
+          )
+          // Keep only the failed links in the box so they can be sent again
+          if (added > 0) {
+            const value = [
+              ...failed.map(({ url }) => url),
+              ...parsed.tags.map((tag) => `#${tag}`),
+            ].join(' ')
+            setInput(value)
+            parseInput(value)
+          }
+          return
+        }
       }
       // Otherwise, create a note
       else if (cleanContent) {
         await addItem({
-          chestId,
+          chestId: targetChestId,
           type: 'note',
           content: cleanContent,
-          tags: detectedTags.length > 0 ? detectedTags : undefined,
+          tags,
+          dateTime,
         })
-        toast.success('Note added!')
+        toast.success(`Note added${addedTo}!`)
       }
 
       // Reset form
       setInput('')
       setSelectedFiles([])
-      setDetectedTags([])
-      setDetectedUrl(null)
+      setDetectedUrls([])
+      setDeselectedUrls([])
+      setIsRichNote(false)
+      setCaret(0)
       if (textareaRef.current) {
         textareaRef.current.style.height = 'auto'
       }
     } catch (error) {
       console.error('Error adding item:', error)
-      toast.error('Failed to add item')
+      toast.error(getErrorMessage(error, 'Failed to add item'))
     } finally {
       setIsSubmitting(false)
     }
   }
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (menuOptions.length > 0) {
+      const selected = Math.min(activeOption, menuOptions.length - 1)
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setActiveOption(
+          (selected + step + menuOptions.length) % menuOptions.length,
+        )
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        applySuggestion(menuOptions[selected])
+        return
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        setIsMenuDismissed(true)
+        return
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault()
       handleSubmit()
@@ -154,6 +474,23 @@ export function ChatInput({ chestId }: ChatInputProps) {
 
   return (
     <div className="">
+      {isDraggingFiles && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 pointer-events-none">
+          <div className="flex flex-col items-center gap-2 rounded-xl border-2 border-dashed border-primary p-12 text-primary">
+            <Upload className="h-8 w-8" />
+            <p className="text-sm font-medium">Drop files to attach</p>
+          </div>
+        </div>
+      )}
+
+      <UploadQueue
+        uploads={uploadManager.uploads}
+        onCancel={uploadManager.cancel}
+        onCancelAll={uploadManager.cancelAll}
+        onRetry={uploadManager.retry}
+        onDismiss={uploadManager.dismiss}
+      />
+
       {/* File Attachments Preview */}
       {selectedFiles.length > 0 && (
         <div className="flex flex-wrap gap-2 px-3">
@@ -182,31 +519,96 @@ export function ChatInput({ chestId }: ChatInputProps) {
       )}
 
       {/* Detected Tags and URL Preview */}
-      {(detectedTags.length > 0 || detectedUrl) && (
+      {(parsed.tags.length > 0 ||
+        (detectedUrls.length > 0 && !savesAsRichNote) ||
+        parsed.type ||
+        parsed.dueDate !== undefined ||
+        parsed.moveTo) && (
         <div className="flex flex-wrap gap-2 text-xs px-3">
-          {detectedTags.map((tag) => (
+          {parsed.type && (
+            <Badge variant="secondary" className="gap-1 text-xs">
+              {parsed.type === 'todo' ? (
+                <CheckSquare className="h-3 w-3" />
+              ) : parsed.type === 'link' ? (
+                <Link2 className="h-3 w-3" />
+              ) : (
+                <FileText className="h-3 w-3" />
+              )}
+              {parsed.type}
+            </Badge>
+          )}
+          {parsed.dueDate !== undefined && (
+            <Badge variant="secondary" className="gap-1 text-xs">
+              <Calendar className="h-3 w-3" />
+              {formatDueDate(parsed.dueDate)}
+            </Badge>
+          )}
+          {parsed.recurrence && (
+            <Badge variant="secondary" className="gap-1 text-xs">
+              <Repeat className="h-3 w-3" />
+              {describeRecurrence(parsed.recurrence)}
+            </Badge>
+          )}
+          {parsed.moveTo && (
+            <Badge
+              variant={
+                findChestByName(moveTargets, parsed.moveTo)
+                  ? 'secondary'
+                  : 'destructive'
+              }
+              className="gap-1 text-xs"
+            >
+              <ArrowRight className="h-3 w-3" />
+              {parsed.moveTo}
+            </Badge>
+          )}
+          {parsed.tags.map((tag) => (
             <Badge key={tag} variant="outline" className="text-xs">
               #{tag}
             </Badge>
           ))}
-          {detectedUrl && (
-            <Badge variant="outline" className="gap-1 text-xs">
-              <Link2 className="h-3 w-3" />
-              Link detected
-            </Badge>
-          )}
+          {/* Each link becomes its own item unless unticked here */}
+          {!savesAsRichNote &&
+            detectedUrls.map((url) => {
+              const selected = !deselectedUrls.includes(url)
+              return (
+                <button
+                  key={url}
+                  type="button"
+                  onClick={() => toggleUrl(url)}
+                  title={selected ? 'Skip this link' : 'Add this link'}
+                  aria-pressed={selected}
+                >
+                  <Badge
+                    variant={selected ? 'outline' : 'secondary'}
+                    className={`gap-1 text-xs max-w-xs ${
+                      selected ? '' : 'line-through opacity-60'
+                    }`}
+                  >
+                    <Link2 className="h-3 w-3" />
+                    <span className="truncate">{getUrlLabel(url)}</span>
+                  </Badge>
+                </button>
+              )
+            })}
         </div>
       )}
 
       {/* Input Area */}
       <div className="relative border rounded-xl bg-background shadow-sm focus-within:ring-2 focus-within:ring-ring">
+        <CommandMenu
+          options={menuOptions}
+          activeIndex={Math.min(activeOption, menuOptions.length - 1)}
+          onSelect={applySuggestion}
+          onActiveIndexChange={setActiveOption}
+        />
         <input
           ref={fileInputRef}
           type="file"
           multiple
           onChange={handleFileSelect}
           className="hidden"
-          accept="*/*"
+          accept={chest?.allowedFileTypes?.join(',') || '*/*'}
         />
 
         <Textarea
@@ -214,7 +616,9 @@ export function ChatInput({ chestId }: ChatInputProps) {
           value={input}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
-          placeholder="Type a message... Use #tags for organization, paste links, or attach files"
+          onPaste={handlePaste}
+          onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+          placeholder="Type a message... Use #tags, / for commands, paste links, or attach files"
           disabled={isSubmitting}
           className="resize-none min-h-[56px] max-h-[200px] border-0 focus-visible:ring-0 shadow-none pl-4 pr-24 py-4 text-sm"
           rows={1}
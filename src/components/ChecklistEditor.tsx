@@ -0,0 +1,137 @@
+// src/components/ChecklistEditor.tsx
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Plus, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+export interface ChecklistEntry {
+  id: string
+  label: string
+  completed: boolean
+}
+
+interface ChecklistEditorProps {
+  entries: Array<ChecklistEntry>
+  onChange: (entries: Array<ChecklistEntry>) => void
+}
+
+// The todo's checklist as the dialog edits it; saved along with the rest
+export function ChecklistEditor({ entries, onChange }: ChecklistEditorProps) {
+  const [newLabel, setNewLabel] = useState('')
+
+  const update = (id: string, changes: Partial<ChecklistEntry>) => {
+    onChange(
+      entries.map((entry) =>
+        entry.id === id ? { ...entry, ...changes } : entry,
+      ),
+    )
+  }
+
+  const move = (index: number, offset: number) => {
+    const moved = [...entries]
+    const [entry] = moved.splice(index, 1)
+    moved.splice(index + offset, 0, entry)
+    onChange(moved)
+  }
+
+  const add = () => {
+    const label = newLabel.trim()
+    if (!label) return
+    onChange([...entries, { id: crypto.randomUUID(), label, completed: false }])
+    setNewLabel('')
+  }
+
+  const completedCount = entries.filter((entry) => entry.completed).length
+
+  return (
+    <div className="space-y-2">
+      <Label>
+        Checklist
+        {entries.length > 0 && (
+          <span className="font-normal text-muted-foreground">
+            {completedCount}/{entries.length}
+          </span>
+        )}
+      </Label>
+
+      {entries.map((entry, index) => (
+        <div key={entry.id} className="flex items-center gap-2">
+          <Checkbox
+            checked={entry.completed}
+            onCheckedChange={(checked) =>
+              update(entry.id, { completed: checked === true })
+            }
+            aria-label={`Done: ${entry.label}`}
+          />
+          <Input
+            value={entry.label}
+            onChange={(e) => update(entry.id, { label: e.target.value })}
+            className={`h-8 ${entry.completed ? 'line-through text-muted-foreground' : ''}`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => move(index, -1)}
+            disabled={index === 0}
+            aria-label="Move up"
+          >
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => move(index, 1)}
+            disabled={index === entries.length - 1}
+            aria-label="Move down"
+          >
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0 text-destructive"
+            onClick={() =>
+              onChange(entries.filter((other) => other.id !== entry.id))
+            }
+            aria-label={`Remove ${entry.label}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter adds an entry rather than submitting the dialog
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              add()
+            }
+          }}
+          placeholder="Add a step"
+          className="h-8"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={add}
+          disabled={!newLabel.trim()}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add
+        </Button>
+      </div>
+    </div>
+  )
+}
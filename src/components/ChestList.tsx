@@ -3,8 +3,10 @@ import { useState } from 'react'
 import { useMutation, useQuery } from 'convex/react'
 import { Link } from '@tanstack/react-router'
 import { api } from '@@/convex/_generated/api'
-import type { Id } from '@@/convex/_generated/dataModel'
 import { toast } from 'sonner'
+import { Plus, Trash2 } from 'lucide-react'
+import { UsageBar } from './UsageBar'
+import type { Id } from '@@/convex/_generated/dataModel'
 import { Button } from '@/components/ui/button'
 import {
   Card,
@@ -37,10 +39,10 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Badge } from '@/components/ui/badge'
-import { Trash2, Plus } from 'lucide-react'
 
 export function ChestList() {
   const chests = useQuery(api.chests.listMyChests)
+  const usage = useQuery(api.quotas.getMyStorageUsage)
   const createChest = useMutation(api.chests.createChest)
   const deleteChest = useMutation(api.chests.deleteChest)
 
@@ -99,7 +101,17 @@ export function ChestList() {
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-semibold tracking-tight">Your Chests</h2>
+        <div className="space-y-2">
+          <h2 className="text-2xl font-semibold tracking-tight">Your Chests</h2>
+          {usage && (
+            <UsageBar
+              used={usage.used}
+              quota={usage.quota}
+              label="Storage"
+              className="w-64"
+            />
+          )}
+        </div>
         <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
           <DialogTrigger asChild>
             <Button>
@@ -207,7 +219,16 @@ export function ChestList() {
                         </CardDescription>
                       )}
                     </CardHeader>
-                    <CardFooter className="flex justify-end">
+                    <CardFooter className="flex justify-between items-end gap-4">
+                      {usage ? (
+                        <UsageBar
+                          used={chest.storageUsed ?? 0}
+                          quota={usage.chestQuota}
+                          className="flex-1"
+                        />
+                      ) : (
+                        <div />
+                      )}
                       {chest.role === 'owner' && (
                         <Button
                           variant="ghost"
@@ -1,8 +1,9 @@
 // src/components/ChestView.tsx - Simplified, no header
-import { useQuery } from 'convex/react'
+import { usePaginatedQuery, useQuery } from 'convex/react'
 import { api } from '@@/convex/_generated/api'
-import type { Id } from '@@/convex/_generated/dataModel'
-import { useState } from 'react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Grid3x3, LayoutGrid } from 'lucide-react'
+import { toast } from 'sonner'
 import { TodoList } from './TodoList'
 import { ContentGrid } from './ContentGrid'
 import { ChatInput } from './ChatInput'
@@ -11,27 +12,118 @@ import { QuickAddTodo } from './QuickAddTodo'
 import { CollaboratorDialog } from './CollaboratorDialog'
 import { EditChestDialog } from './EditChestDialog'
 import { ItemDialog } from './ItemDialog'
+import { InventoryGrid } from './InventoryGrid'
+import type { Id } from '@@/convex/_generated/dataModel'
+import type { ItemFilters, TypeFilter, ViewMode } from '@/lib/itemFilters'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { startOfToday } from '@/lib/itemFilters'
+
+const TODOS_PAGE_SIZE = 20
+const CONTENT_PAGE_SIZE = 24
 
 interface ChestViewProps {
   chestId: Id<'chests'>
+  initialSearch?: string
+  highlightedItemId?: Id<'items'>
 }
 
-export function ChestView({ chestId }: ChestViewProps) {
+export function ChestView({
+  chestId,
+  initialSearch,
+  highlightedItemId,
+}: ChestViewProps) {
   const chest = useQuery(api.chests.getChest, { chestId })
-  const items = useQuery(api.items.getChestItems, { chestId })
+  const tags = useQuery(api.items.getChestTags, { chestId })
 
   const [showCollaborators, setShowCollaborators] = useState(false)
   const [showEditChest, setShowEditChest] = useState(false)
   const [showEditItem, setShowEditItem] = useState(false)
   const [editingItem, setEditingItem] = useState<any | null>(null)
-  const [searchQuery, setSearchQuery] = useState('')
-  const [selectedTags, setSelectedTags] = useState<string[]>([])
-  const [typeFilter, setTypeFilter] = useState<string>('all')
-  const [viewMode, setViewMode] = useState<'all' | 'today' | 'week' | 'month'>(
-    'all',
+  const [searchQuery, setSearchQuery] = useState(initialSearch ?? '')
+  // Opening another search result in this chest brings its query along
+  const [syncedSearch, setSyncedSearch] = useState(initialSearch)
+  if (initialSearch !== syncedSearch) {
+    setSyncedSearch(initialSearch)
+    setSearchQuery(initialSearch ?? '')
+  }
+  const [selectedTags, setSelectedTags] = useState<Array<string>>([])
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all')
+  const [viewMode, setViewMode] = useState<ViewMode>('all')
+  const [layout, setLayout] = useState<'list' | 'slots'>('list')
+
+  const filters: ItemFilters = {
+    type: typeFilter,
+    tags: selectedTags,
+    viewMode,
+    search: searchQuery,
+    today: startOfToday(),
+  }
+
+  const {
+    results: todos,
+    status: todosStatus,
+    loadMore: loadMoreTodos,
+  } = usePaginatedQuery(
+    api.items.getChestItemsPage,
+    layout === 'list' ? { chestId, section: 'todos', filters } : 'skip',
+    { initialNumItems: TODOS_PAGE_SIZE },
+  )
+  const {
+    results: contentItems,
+    status: contentStatus,
+    loadMore: loadMoreContent,
+  } = usePaginatedQuery(
+    api.items.getChestItemsPage,
+    layout === 'list' ? { chestId, section: 'content', filters } : 'skip',
+    { initialNumItems: CONTENT_PAGE_SIZE },
   )
 
-  if (!chest || !items) {
+  // Stable, so LoadMoreTrigger keeps its observer between renders
+  const handleLoadMoreTodos = useCallback(
+    () => loadMoreTodos(TODOS_PAGE_SIZE),
+    [loadMoreTodos],
+  )
+  const handleLoadMoreContent = useCallback(
+    () => loadMoreContent(CONTENT_PAGE_SIZE),
+    [loadMoreContent],
+  )
+
+  // Bring an item opened from global search into view once it has loaded,
+  // loading further pages of both lists until it turns up
+  const highlightedItemLoaded =
+    !!highlightedItemId &&
+    [...todos, ...contentItems].some((item) => item._id === highlightedItemId)
+  const notFoundId = useRef<Id<'items'>>(undefined)
+  useEffect(() => {
+    if (!highlightedItemId || highlightedItemLoaded) return
+    if (todosStatus === 'CanLoadMore') handleLoadMoreTodos()
+    if (contentStatus === 'CanLoadMore') handleLoadMoreContent()
+    // Deleted since, or hidden by the filters
+    if (
+      todosStatus === 'Exhausted' &&
+      contentStatus === 'Exhausted' &&
+      notFoundId.current !== highlightedItemId
+    ) {
+      notFoundId.current = highlightedItemId
+      toast.error("Couldn't find that item with the current filters")
+    }
+  }, [
+    highlightedItemId,
+    highlightedItemLoaded,
+    todosStatus,
+    contentStatus,
+    handleLoadMoreTodos,
+    handleLoadMoreContent,
+  ])
+  useEffect(() => {
+    if (highlightedItemLoaded) {
+      document
+        .getElementById(`item-${highlightedItemId}`)
+        ?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    }
+  }, [highlightedItemId, highlightedItemLoaded])
+
+  if (!chest) {
     return (
       <div className="flex justify-center items-center min-h-[400px]">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
@@ -42,10 +134,6 @@ export function ChestView({ chestId }: ChestViewProps) {
   const canEdit = chest.userRole === 'owner' || chest.userRole === 'admin'
   const canAddItems = chest.userRole !== 'viewer'
 
-  // Separate todos from other items
-  const todos = items.filter((item) => item.type === 'todo')
-  const contentItems = items.filter((item) => item.type !== 'todo')
-
   const handleEditItem = (item: any) => {
     setEditingItem(item)
     setShowEditItem(true)
@@ -61,44 +149,68 @@ export function ChestView({ chestId }: ChestViewProps) {
       {/* Main Scrollable Content - Full Height */}
       <div className="flex-1 overflow-y-auto pb-32">
         <div className="max-w-7xl mx-auto p-6 space-y-6">
-          {/* Filter Bar */}
-          <FilterBar
-            items={items}
-            searchQuery={searchQuery}
-            setSearchQuery={setSearchQuery}
-            selectedTags={selectedTags}
-            setSelectedTags={setSelectedTags}
-            typeFilter={typeFilter}
-            setTypeFilter={setTypeFilter}
-            viewMode={viewMode}
-            setViewMode={setViewMode}
-          />
-
-          {/* Quick Add Todo */}
-          {canAddItems && <QuickAddTodo chestId={chestId} />}
-
-          {/* Todos Section */}
-          {todos.length > 0 && (
-            <TodoList
-              todos={todos}
+          {/* Layout Toggle */}
+          <div className="flex justify-end">
+            <Tabs
+              value={layout}
+              onValueChange={(value) => setLayout(value as 'list' | 'slots')}
+            >
+              <TabsList>
+                <TabsTrigger value="list" title="List view">
+                  <LayoutGrid className="h-4 w-4" />
+                </TabsTrigger>
+                <TabsTrigger value="slots" title="Inventory slots">
+                  <Grid3x3 className="h-4 w-4" />
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+
+          {layout === 'slots' ? (
+            <InventoryGrid
+              chestId={chestId}
               canInteract={canAddItems}
-              searchQuery={searchQuery}
-              selectedTags={selectedTags}
-              viewMode={viewMode}
-              onEditTodo={handleEditItem}
+              onEditItem={handleEditItem}
             />
+          ) : (
+            <>
+              {/* Filter Bar */}
+              <FilterBar
+                tags={tags || []}
+                searchQuery={searchQuery}
+                setSearchQuery={setSearchQuery}
+                selectedTags={selectedTags}
+                setSelectedTags={setSelectedTags}
+                typeFilter={typeFilter}
+                setTypeFilter={setTypeFilter}
+                viewMode={viewMode}
+                setViewMode={setViewMode}
+              />
+
+              {/* Quick Add Todo */}
+              {canAddItems && <QuickAddTodo chestId={chestId} />}
+
+              {/* Todos Section */}
+              <TodoList
+                todos={todos}
+                canInteract={canAddItems}
+                onEditTodo={handleEditItem}
+                highlightedItemId={highlightedItemId}
+                status={todosStatus}
+                onLoadMore={handleLoadMoreTodos}
+              />
+
+              {/* Content Grid (Notes, Links, Images, Files) */}
+              <ContentGrid
+                items={contentItems}
+                canInteract={canAddItems}
+                onEditItem={handleEditItem}
+                highlightedItemId={highlightedItemId}
+                status={contentStatus}
+                onLoadMore={handleLoadMoreContent}
+              />
+            </>
           )}
-
-          {/* Content Grid (Notes, Links, Images, Files) */}
-          <ContentGrid
-            items={contentItems}
-            canInteract={canAddItems}
-            searchQuery={searchQuery}
-            selectedTags={selectedTags}
-            typeFilter={typeFilter}
-            viewMode={viewMode}
-            onEditItem={handleEditItem}
-          />
         </div>
       </div>
 
@@ -123,6 +235,10 @@ export function ChestView({ chestId }: ChestViewProps) {
         chestId={chestId}
         currentName={chest.name}
         currentDescription={chest.description}
+        currentCapacity={chest.capacity}
+        currentStripImageMetadata={chest.stripImageMetadata !== false}
+        currentAllowedFileTypes={chest.allowedFileTypes}
+        currentMaxFileSize={chest.maxFileSize}
         open={showEditChest}
         onOpenChange={setShowEditChest}
       />
@@ -0,0 +1,59 @@
+// src/components/CommandMenu.tsx
+export interface CommandMenuOption {
+  key: string
+  label: string
+  value: string
+  hint?: string
+  description?: string
+}
+
+interface CommandMenuProps {
+  options: Array<CommandMenuOption>
+  activeIndex: number
+  onSelect: (option: CommandMenuOption) => void
+  onActiveIndexChange: (index: number) => void
+}
+
+// Suggestions for the slash command or argument being typed. Keyboard
+// handling stays with the input, which keeps focus the whole time.
+export function CommandMenu({
+  options,
+  activeIndex,
+  onSelect,
+  onActiveIndexChange,
+}: CommandMenuProps) {
+  if (options.length === 0) return null
+
+  return (
+    <div
+      role="listbox"
+      className="absolute bottom-full left-0 mb-2 w-72 max-h-64 overflow-y-auto rounded-lg border bg-popover text-popover-foreground shadow-md p-1 z-40"
+    >
+      {options.map((option, index) => (
+        <button
+          key={option.key}
+          type="button"
+          role="option"
+          aria-selected={index === activeIndex}
+          // Keep focus in the textarea so the caret doesn't move
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(option)}
+          onMouseEnter={() => onActiveIndexChange(index)}
+          className={`w-full text-left rounded-md px-2 py-1.5 text-sm ${
+            index === activeIndex ? 'bg-accent text-accent-foreground' : ''
+          }`}
+        >
+          <span className="font-medium">{option.label}</span>
+          {option.hint && (
+            <span className="ml-1 text-muted-foreground">{option.hint}</span>
+          )}
+          {option.description && (
+            <span className="block text-xs text-muted-foreground">
+              {option.description}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  )
+}
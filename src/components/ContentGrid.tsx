@@ -1,11 +1,29 @@
 // src/components/ContentGrid.tsx
-import { useMemo, useState } from 'react'
+import { useState } from 'react'
 import { useMutation } from 'convex/react'
 import { api } from '@@/convex/_generated/api'
-import type { Id } from '@@/convex/_generated/dataModel'
+import { isTrustedEmbedUrl } from '@@/convex/embeds'
 import { toast } from 'sonner'
-import { Button } from '@/components/ui/button'
-import { Badge } from '@/components/ui/badge'
+import {
+  Calendar,
+  Edit2,
+  ExternalLink,
+  File as FileIcon,
+  FileText,
+  Image as ImageIcon,
+  Layers,
+  Link2,
+  Loader2,
+  Trash2,
+  Ungroup,
+} from 'lucide-react'
+import { LoadMoreTrigger } from './LoadMoreTrigger'
+import { LinkEmbed } from './LinkEmbed'
+import { ImageThumbnail } from './ImageThumbnail'
+import { FilePreview } from './FilePreview'
+import type { EmbedType } from '@@/convex/embeds'
+import type { PaginationStatus } from 'convex/react'
+import type { Id } from '@@/convex/_generated/dataModel'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -16,131 +34,73 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import {
-  Link2,
-  FileText,
-  Image as ImageIcon,
-  File as FileIcon,
-  Trash2,
-  ExternalLink,
-  Calendar,
-  Edit2,
-} from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
 
 interface ContentItem {
   _id: Id<'items'>
+  stackSize: number
   type: 'link' | 'note' | 'image' | 'file'
   url?: string | null
+  thumbnailUrl?: string | null
+  blurhash?: string
+  dominantColor?: string
   title?: string
   content?: string
   filename?: string
   mimeType?: string
+  fileSize?: number
+  pageCount?: number
+  textExcerpt?: string
   dateTime?: number
-  tags?: string[]
-  linkPreview?: {
-    title?: string
-    description?: string
-    image?: string
-  }
+  tags?: Array<string>
+  favicon?: string
+  preview?: string
+  description?: string
+  siteName?: string
+  previewStatus?: 'pending' | 'ready' | 'failed'
+  embedType?: EmbedType
+  embedProvider?: string
+  embedUrl?: string
+  searchSnippet?: Array<{ text: string; highlight: boolean }> | null
+}
+
+// Links fall back to a plain anchor until a fetched preview has something to show
+function hasLinkPreview(item: ContentItem) {
+  return item.previewStatus === 'ready' && !!(item.preview || item.description)
+}
+
+// Trusted providers get an inline player instead of the preview card
+function hasLinkEmbed(item: ContentItem) {
+  return !!(
+    item.embedProvider &&
+    item.embedType &&
+    item.embedUrl &&
+    isTrustedEmbedUrl(item.embedProvider, item.embedUrl)
+  )
 }
 
 interface ContentGridProps {
-  items: ContentItem[]
+  items: Array<ContentItem>
   canInteract: boolean
-  searchQuery: string
-  selectedTags: string[]
-  typeFilter: string
-  viewMode: 'all' | 'today' | 'week' | 'month'
   onEditItem: (item: ContentItem) => void
+  highlightedItemId?: Id<'items'>
+  status: PaginationStatus
+  onLoadMore: () => void
 }
 
 export function ContentGrid({
   items,
   canInteract,
-  searchQuery,
-  selectedTags,
-  typeFilter,
-  viewMode,
   onEditItem,
+  highlightedItemId,
+  status,
+  onLoadMore,
 }: ContentGridProps) {
   const deleteItem = useMutation(api.items.deleteItem)
+  const unstackItem = useMutation(api.items.unstackItem)
   const [deletingId, setDeletingId] = useState<Id<'items'> | null>(null)
 
-  // Filter items
-  const filteredItems = useMemo(() => {
-    let filtered = [...items]
-
-    // Filter by date view mode
-    if (viewMode !== 'all') {
-      const now = new Date()
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
-
-      filtered = filtered.filter((item) => {
-        if (!item.dateTime) return false
-        const itemDate = new Date(item.dateTime)
-        const itemDay = new Date(
-          itemDate.getFullYear(),
-          itemDate.getMonth(),
-          itemDate.getDate(),
-        )
-
-        if (viewMode === 'today') {
-          return itemDay.getTime() === today.getTime()
-        } else if (viewMode === 'week') {
-          const weekFromNow = new Date(
-            today.getTime() + 7 * 24 * 60 * 60 * 1000,
-          )
-          return itemDay >= today && itemDay <= weekFromNow
-        } else if (viewMode === 'month') {
-          const monthFromNow = new Date(
-            today.getFullYear(),
-            today.getMonth() + 1,
-            today.getDate(),
-          )
-          return itemDay >= today && itemDay <= monthFromNow
-        }
-        return true
-      })
-    }
-
-    // Filter by type
-    if (typeFilter !== 'all') {
-      filtered = filtered.filter((item) => item.type === typeFilter)
-    }
-
-    // Filter by tags
-    if (selectedTags.length > 0) {
-      filtered = filtered.filter((item) =>
-        selectedTags.some((tag) => item.tags?.includes(tag)),
-      )
-    }
-
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase()
-      filtered = filtered.filter((item) => {
-        const searchableText = [
-          item.title,
-          item.content,
-          item.filename,
-          ...(item.tags || []),
-        ]
-          .filter(Boolean)
-          .join(' ')
-          .toLowerCase()
-        return searchableText.includes(query)
-      })
-    }
-
-    // Sort by date (most recent first)
-    return filtered.sort((a, b) => {
-      if (!a.dateTime && !b.dateTime) return 0
-      if (!a.dateTime) return 1
-      if (!b.dateTime) return -1
-      return b.dateTime - a.dateTime
-    })
-  }, [items, viewMode, typeFilter, selectedTags, searchQuery])
-
   const handleDelete = async () => {
     if (!deletingId) return
     try {
@@ -152,6 +112,15 @@ export function ContentGrid({
     }
   }
 
+  const handleUnstack = async (item: ContentItem) => {
+    try {
+      await unstackItem({ itemId: item._id })
+      toast.success(`Split into ${item.stackSize} items`)
+    } catch (error) {
+      toast.error('Failed to unstack item')
+    }
+  }
+
   const getItemIcon = (type: string) => {
     const iconClass = 'h-4 w-4'
     switch (type) {
@@ -191,7 +160,15 @@ export function ContentGrid({
     }
   }
 
-  if (filteredItems.length === 0) {
+  if (status === 'LoadingFirstPage') {
+    return (
+      <div className="flex justify-center items-center min-h-[200px]">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  if (items.length === 0) {
     return (
       <div className="bg-card border rounded-lg p-12">
         <div className="text-center text-muted-foreground">
@@ -200,6 +177,7 @@ export function ContentGrid({
             Try adjusting your filters or add new content below
           </p>
         </div>
+        <LoadMoreTrigger status={status} onLoadMore={onLoadMore} />
       </div>
     )
   }
@@ -207,10 +185,13 @@ export function ContentGrid({
   return (
     <>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {filteredItems.map((item) => (
+        {items.map((item) => (
           <div
             key={item._id}
-            className="bg-card border rounded-lg group hover:shadow-lg transition-all overflow-hidden flex flex-col"
+            id={`item-${item._id}`}
+            className={`bg-card border rounded-lg group hover:shadow-lg transition-all overflow-hidden flex flex-col ${
+              item._id === highlightedItemId ? 'ring-2 ring-primary' : ''
+            }`}
           >
             <div className="p-4 pb-3 border-b">
               <div className="flex items-start justify-between gap-2">
@@ -219,21 +200,49 @@ export function ContentGrid({
                     {getItemIcon(item.type)}
                   </div>
                   <div className="flex-1 min-w-0">
-                    <h3 className="text-base font-semibold truncate">
-                      {item.type === 'note' && item.content
-                        ? item.content.split('\n')[0] || 'Empty note'
-                        : item.title || item.filename || 'Untitled'}
-                    </h3>
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-base font-semibold truncate">
+                        {item.type === 'note' && item.content
+                          ? item.content.split('\n')[0] || 'Empty note'
+                          : item.title || item.filename || 'Untitled'}
+                      </h3>
+                      {item.stackSize > 1 && (
+                        <Badge
+                          variant="secondary"
+                          className="text-xs gap-1 shrink-0"
+                          title={`${item.stackSize} copies stacked`}
+                        >
+                          <Layers className="h-3 w-3" />
+                          {item.stackSize}
+                        </Badge>
+                      )}
+                    </div>
                     {item.type === 'link' && item.url && (
                       <p className="truncate text-xs mt-1 flex items-center gap-1 text-muted-foreground">
                         <ExternalLink className="h-3 w-3" />
                         {new URL(item.url).hostname}
+                        {item.embedProvider && (
+                          <Badge variant="outline" className="text-xs ml-1">
+                            {item.embedProvider}
+                          </Badge>
+                        )}
                       </p>
                     )}
                   </div>
                 </div>
                 {canInteract && (
                   <div className="flex gap-1">
+                    {item.stackSize > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity"
+                        title="Unstack"
+                        onClick={() => handleUnstack(item)}
+                      >
+                        <Ungroup className="h-3 w-3" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="icon"
@@ -256,51 +265,106 @@ export function ContentGrid({
             </div>
 
             <div className="p-4 space-y-3 flex-1">
+              {/* Link Embed */}
+              {item.type === 'link' && hasLinkEmbed(item) && (
+                <LinkEmbed
+                  provider={item.embedProvider!}
+                  type={item.embedType!}
+                  embedUrl={item.embedUrl!}
+                  title={item.title}
+                />
+              )}
+
+              {/* Link Preview Loading */}
+              {item.type === 'link' &&
+                item.previewStatus === 'pending' &&
+                !hasLinkEmbed(item) && (
+                  <div className="border rounded-lg overflow-hidden animate-pulse">
+                    <div className="w-full h-32 bg-muted" />
+                    <div className="p-3 flex items-center gap-2 text-xs text-muted-foreground">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      Fetching preview...
+                    </div>
+                  </div>
+                )}
+
               {/* Link Preview */}
-              {item.type === 'link' && item.linkPreview && (
-                <a
-                  href={item.url || '#'}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="block border rounded-lg overflow-hidden hover:border-primary transition-colors"
-                >
-                  {item.linkPreview.image && (
-                    <img
-                      src={item.linkPreview.image}
-                      alt={item.linkPreview.title}
-                      className="w-full h-32 object-cover"
-                    />
-                  )}
-                  <div className="p-3">
-                    {item.linkPreview.title && (
-                      <p className="font-medium text-sm line-clamp-1">
-                        {item.linkPreview.title}
-                      </p>
+              {item.type === 'link' &&
+                hasLinkPreview(item) &&
+                !hasLinkEmbed(item) && (
+                  <a
+                    href={item.url || '#'}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block border rounded-lg overflow-hidden hover:border-primary transition-colors"
+                  >
+                    {item.preview && (
+                      <img
+                        src={item.preview}
+                        alt={item.title}
+                        className="w-full h-32 object-cover"
+                      />
                     )}
-                    {item.linkPreview.description && (
-                      <p className="text-xs text-muted-foreground line-clamp-2 mt-1">
-                        {item.linkPreview.description}
-                      </p>
-                    )}
-                  </div>
-                </a>
-              )}
+                    <div className="p-3">
+                      {item.description && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">
+                          {item.description}
+                        </p>
+                      )}
+                      {item.favicon && item.url && (
+                        <p className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+                          <img
+                            src={item.favicon}
+                            alt=""
+                            className="h-3 w-3"
+                            onError={(e) =>
+                              (e.currentTarget.style.display = 'none')
+                            }
+                          />
+                          {item.siteName || new URL(item.url).hostname}
+                        </p>
+                      )}
+                    </div>
+                  </a>
+                )}
 
               {/* Regular Link */}
-              {item.type === 'link' && !item.linkPreview && item.url && (
-                <a
-                  href={item.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="text-sm text-primary hover:underline flex items-center gap-1"
-                >
-                  Open Link
-                  <ExternalLink className="h-3 w-3" />
-                </a>
+              {item.type === 'link' &&
+                item.previewStatus !== 'pending' &&
+                !hasLinkPreview(item) &&
+                !hasLinkEmbed(item) &&
+                item.url && (
+                  <a
+                    href={item.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-primary hover:underline flex items-center gap-1"
+                  >
+                    Open Link
+                    <ExternalLink className="h-3 w-3" />
+                  </a>
+                )}
+
+              {/* Search Snippet */}
+              {item.searchSnippet && (
+                <p className="text-sm text-muted-foreground line-clamp-3">
+                  {item.searchSnippet.map((segment, index) =>
+                    segment.highlight ? (
+                      <mark
+                        key={index}
+                        className="bg-primary/20 text-foreground rounded-sm px-0.5"
+                      >
+                        {segment.text}
+                      </mark>
+                    ) : (
+                      <span key={index}>{segment.text}</span>
+                    ),
+                  )}
+                </p>
               )}
 
               {/* Note Content */}
-              {item.type === 'note' && item.content && (
+              {item.type === 'note' && item.content && !item.searchSnippet && (
                 <p className="text-sm text-muted-foreground whitespace-pre-wrap line-clamp-4">
                   {item.content.split('\n').slice(1).join('\n') || item.content}
                 </p>
@@ -308,33 +372,19 @@ export function ContentGrid({
 
               {/* Image */}
               {item.type === 'image' && item.url && (
-                <img
-                  src={item.url}
+                <ImageThumbnail
+                  src={item.thumbnailUrl || item.url}
                   alt={item.filename || 'Image'}
-                  className="w-full h-48 object-cover rounded-md cursor-pointer"
+                  blurhash={item.blurhash}
+                  dominantColor={item.dominantColor}
+                  className="w-full h-48 rounded-md cursor-pointer"
                   onClick={() => window.open(item.url!, '_blank')}
                 />
               )}
 
               {/* File */}
               {item.type === 'file' && item.url && (
-                <a
-                  href={item.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center gap-2 p-3 border rounded-lg hover:border-primary transition-colors"
-                >
-                  <FileIcon className="h-8 w-8 text-muted-foreground" />
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">
-                      {item.filename}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      {item.mimeType}
-                    </p>
-                  </div>
-                  <ExternalLink className="h-4 w-4 text-muted-foreground" />
-                </a>
+                <FilePreview file={{ ...item, url: item.url }} compact />
               )}
 
               {/* Tags */}
@@ -360,6 +410,8 @@ export function ContentGrid({
         ))}
       </div>
 
+      <LoadMoreTrigger status={status} onLoadMore={onLoadMore} />
+
       <AlertDialog
         open={deletingId !== null}
         onOpenChange={(open) => !open && setDeletingId(null)}
@@ -1,9 +1,9 @@
 // src/components/EditChestDialog.tsx
-import { useState, useEffect } from 'react'
+import { useEffect, useState } from 'react'
 import { useMutation } from 'convex/react'
 import { api } from '@@/convex/_generated/api'
-import type { Id } from '@@/convex/_generated/dataModel'
 import { toast } from 'sonner'
+import type { Id } from '@@/convex/_generated/dataModel'
 import {
   Dialog,
   DialogContent,
@@ -16,11 +16,26 @@ import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
 import { Label } from '@/components/ui/label'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { getErrorMessage } from '@/lib/errors'
+
+const MB = 1024 * 1024
 
 interface EditChestDialogProps {
   chestId: Id<'chests'>
   currentName: string
   currentDescription?: string
+  currentCapacity?: number
+  currentStripImageMetadata: boolean
+  currentAllowedFileTypes?: Array<string>
+  currentMaxFileSize?: number
   open: boolean
   onOpenChange: (open: boolean) => void
 }
@@ -29,18 +44,44 @@ export function EditChestDialog({
   chestId,
   currentName,
   currentDescription,
+  currentCapacity,
+  currentStripImageMetadata,
+  currentAllowedFileTypes,
+  currentMaxFileSize,
   open,
   onOpenChange,
 }: EditChestDialogProps) {
   const updateChest = useMutation(api.chests.updateChest)
   const [name, setName] = useState(currentName)
   const [description, setDescription] = useState(currentDescription || '')
+  const [capacity, setCapacity] = useState(String(currentCapacity ?? 'none'))
+  const [stripImageMetadata, setStripImageMetadata] = useState(
+    currentStripImageMetadata,
+  )
+  const [allowedFileTypes, setAllowedFileTypes] = useState(
+    currentAllowedFileTypes?.join(', ') || '',
+  )
+  const [maxFileSize, setMaxFileSize] = useState(
+    currentMaxFileSize ? String(currentMaxFileSize / MB) : '',
+  )
   const [isSaving, setIsSaving] = useState(false)
 
   useEffect(() => {
     setName(currentName)
     setDescription(currentDescription || '')
-  }, [currentName, currentDescription, open])
+    setCapacity(String(currentCapacity ?? 'none'))
+    setStripImageMetadata(currentStripImageMetadata)
+    setAllowedFileTypes(currentAllowedFileTypes?.join(', ') || '')
+    setMaxFileSize(currentMaxFileSize ? String(currentMaxFileSize / MB) : '')
+  }, [
+    currentName,
+    currentDescription,
+    currentCapacity,
+    currentStripImageMetadata,
+    currentAllowedFileTypes,
+    currentMaxFileSize,
+    open,
+  ])
 
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -52,11 +93,15 @@ export function EditChestDialog({
         chestId,
         name: name.trim(),
         description: description.trim() || undefined,
+        capacity: capacity === '27' ? 27 : capacity === '54' ? 54 : null,
+        stripImageMetadata,
+        allowedFileTypes: allowedFileTypes.split(','),
+        maxFileSize: maxFileSize ? Math.round(Number(maxFileSize) * MB) : null,
       })
       toast.success('Chest updated successfully')
       onOpenChange(false)
     } catch (error) {
-      toast.error('Failed to update chest')
+      toast.error(getErrorMessage(error, 'Failed to update chest'))
     } finally {
       setIsSaving(false)
     }
@@ -68,7 +113,7 @@ export function EditChestDialog({
         <DialogHeader>
           <DialogTitle>Edit Chest</DialogTitle>
           <DialogDescription>
-            Update the name and description of your chest
+            Update the name, description and settings of your chest
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSave}>
@@ -93,6 +138,59 @@ export function EditChestDialog({
                 rows={3}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-capacity">Capacity</Label>
+              <Select value={capacity} onValueChange={setCapacity}>
+                <SelectTrigger id="edit-capacity">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Unlimited</SelectItem>
+                  <SelectItem value="27">27 slots (single chest)</SelectItem>
+                  <SelectItem value="54">54 slots (double chest)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-allowed-types">Allowed file types</Label>
+              <Input
+                id="edit-allowed-types"
+                value={allowedFileTypes}
+                onChange={(e) => setAllowedFileTypes(e.target.value)}
+                placeholder="Any type, or e.g. image/*, application/pdf"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-max-file-size">Max file size (MB)</Label>
+              <Input
+                id="edit-max-file-size"
+                type="number"
+                min={1}
+                max={100}
+                step="any"
+                value={maxFileSize}
+                onChange={(e) => setMaxFileSize(e.target.value)}
+                placeholder="100"
+              />
+            </div>
+            <div className="flex items-start gap-3">
+              <Checkbox
+                id="edit-strip-metadata"
+                checked={stripImageMetadata}
+                onCheckedChange={(checked) =>
+                  setStripImageMetadata(checked === true)
+                }
+              />
+              <div className="space-y-1">
+                <Label htmlFor="edit-strip-metadata">
+                  Remove photo metadata
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Strips location and camera details from uploaded images. The
+                  capture date is kept as the item's date.
+                </p>
+              </div>
+            </div>
           </div>
           <DialogFooter>
             <Button
@@ -0,0 +1,122 @@
+// src/components/FilePreview.tsx
+import { useMemo } from 'react'
+import hljs from 'highlight.js/lib/common'
+import { ExternalLink, File as FileIcon } from 'lucide-react'
+import { getCodeLanguage, getFilePreviewKind } from '@@/convex/fileTypes'
+import { formatBytes } from '@@/convex/format'
+
+interface FilePreviewProps {
+  file: {
+    url: string
+    filename?: string
+    mimeType?: string
+    fileSize?: number
+    thumbnailUrl?: string | null
+    pageCount?: number
+    textExcerpt?: string
+  }
+  // The grid shows a short preview; the detail view shows everything
+  compact?: boolean
+}
+
+function HighlightedText({
+  text,
+  filename,
+  compact,
+}: {
+  text: string
+  filename?: string
+  compact: boolean
+}) {
+  const shown = compact ? text.split('\n').slice(0, 8).join('\n') : text
+  const html = useMemo(() => {
+    const language = getCodeLanguage(filename)
+    if (language && hljs.getLanguage(language)) {
+      return hljs.highlight(shown, { language, ignoreIllegals: true }).value
+    }
+    return hljs.highlightAuto(shown).value
+  }, [shown, filename])
+
+  return (
+    <pre
+      className={`rounded-md bg-muted p-3 text-xs font-mono overflow-auto ${
+        compact ? 'max-h-40' : 'max-h-[50vh]'
+      }`}
+    >
+      <code dangerouslySetInnerHTML={{ __html: html }} />
+    </pre>
+  )
+}
+
+function FileLink({ file }: FilePreviewProps) {
+  const details = [
+    file.mimeType,
+    file.pageCount !== undefined &&
+      `${file.pageCount} page${file.pageCount === 1 ? '' : 's'}`,
+    file.fileSize !== undefined && formatBytes(file.fileSize),
+  ].filter(Boolean)
+
+  return (
+    <a
+      href={file.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-2 p-3 border rounded-lg hover:border-primary transition-colors"
+    >
+      <FileIcon className="h-8 w-8 text-muted-foreground" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{file.filename}</p>
+        <p className="text-xs text-muted-foreground">{details.join(' · ')}</p>
+      </div>
+      <ExternalLink className="h-4 w-4 text-muted-foreground" />
+    </a>
+  )
+}
+
+export function FilePreview({ file, compact = false }: FilePreviewProps) {
+  const kind = getFilePreviewKind(file.mimeType, file.filename)
+
+  return (
+    <div className="space-y-2">
+      {kind === 'pdf' && file.thumbnailUrl && (
+        <a href={file.url} target="_blank" rel="noopener noreferrer">
+          <img
+            src={file.thumbnailUrl}
+            alt={`First page of ${file.filename || 'PDF'}`}
+            loading="lazy"
+            className={`w-full rounded-md border bg-white ${
+              compact
+                ? 'h-48 object-cover object-top'
+                : 'max-h-[60vh] object-contain'
+            }`}
+          />
+        </a>
+      )}
+
+      {kind === 'text' && file.textExcerpt && (
+        <HighlightedText
+          text={file.textExcerpt}
+          filename={file.filename}
+          compact={compact}
+        />
+      )}
+
+      {kind === 'audio' && (
+        <audio controls preload="metadata" src={file.url} className="w-full" />
+      )}
+
+      {kind === 'video' && (
+        <video
+          controls
+          preload="metadata"
+          src={file.url}
+          className={`w-full rounded-md bg-black ${
+            compact ? 'max-h-48' : 'max-h-[60vh]'
+          }`}
+        />
+      )}
+
+      <FileLink file={file} />
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 // src/components/FilterBar.tsx
-import { useMemo } from 'react'
+import { Filter, Search, X } from 'lucide-react'
+import type { TypeFilter, ViewMode } from '@/lib/itemFilters'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
@@ -11,22 +12,21 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { Search, X, Filter } from 'lucide-react'
 
 interface FilterBarProps {
-  items: any[]
+  tags: Array<string>
   searchQuery: string
   setSearchQuery: (query: string) => void
-  selectedTags: string[]
-  setSelectedTags: (tags: string[]) => void
-  typeFilter: string
-  setTypeFilter: (type: string) => void
-  viewMode: 'all' | 'today' | 'week' | 'month'
-  setViewMode: (mode: 'all' | 'today' | 'week' | 'month') => void
+  selectedTags: Array<string>
+  setSelectedTags: (tags: Array<string>) => void
+  typeFilter: TypeFilter
+  setTypeFilter: (type: TypeFilter) => void
+  viewMode: ViewMode
+  setViewMode: (mode: ViewMode) => void
 }
 
 export function FilterBar({
-  items,
+  tags,
   searchQuery,
   setSearchQuery,
   selectedTags,
@@ -36,15 +36,6 @@ export function FilterBar({
   viewMode,
   setViewMode,
 }: FilterBarProps) {
-  // Extract all unique tags
-  const allTags = useMemo(() => {
-    const tagSet = new Set<string>()
-    items.forEach((item) => {
-      item.tags?.forEach((tag: string) => tagSet.add(tag))
-    })
-    return Array.from(tagSet).sort()
-  }, [items])
-
   const toggleTag = (tag: string) => {
     setSelectedTags(
       selectedTags.includes(tag)
@@ -80,7 +71,10 @@ export function FilterBar({
           />
         </div>
 
-        <Tabs value={viewMode} onValueChange={(v) => setViewMode(v as any)}>
+        <Tabs
+          value={viewMode}
+          onValueChange={(v) => setViewMode(v as ViewMode)}
+        >
           <TabsList>
             <TabsTrigger value="all">All</TabsTrigger>
             <TabsTrigger value="today">Today</TabsTrigger>
@@ -89,7 +83,10 @@ export function FilterBar({
           </TabsList>
         </Tabs>
 
-        <Select value={typeFilter} onValueChange={setTypeFilter}>
+        <Select
+          value={typeFilter}
+          onValueChange={(v) => setTypeFilter(v as TypeFilter)}
+        >
           <SelectTrigger className="w-[140px]">
             <SelectValue placeholder="All Types" />
           </SelectTrigger>
@@ -104,14 +101,14 @@ export function FilterBar({
       </div>
 
       {/* Tag Filters */}
-      {allTags.length > 0 && (
+      {tags.length > 0 && (
         <div className="space-y-2">
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Filter className="h-4 w-4" />
             <span>Filter by tags:</span>
           </div>
           <div className="flex flex-wrap gap-2">
-            {allTags.map((tag) => (
+            {tags.map((tag) => (
               <Badge
                 key={tag}
                 variant={selectedTags.includes(tag) ? 'default' : 'outline'}
@@ -0,0 +1,74 @@
+// src/components/ImageThumbnail.tsx
+import { useEffect, useRef, useState } from 'react'
+import { decode } from 'blurhash'
+
+const PLACEHOLDER_SIZE = 32
+
+interface ImageThumbnailProps {
+  src: string
+  alt: string
+  blurhash?: string
+  dominantColor?: string
+  className?: string
+  onClick?: () => void
+}
+
+export function ImageThumbnail({
+  src,
+  alt,
+  blurhash,
+  dominantColor,
+  className,
+  onClick,
+}: ImageThumbnailProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [loaded, setLoaded] = useState(false)
+
+  // Paint the blurhash while the thumbnail is still loading
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!blurhash || !context) return
+
+    try {
+      const pixels = decode(blurhash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE)
+      const imageData = context.createImageData(
+        PLACEHOLDER_SIZE,
+        PLACEHOLDER_SIZE,
+      )
+      imageData.data.set(pixels)
+      context.putImageData(imageData, 0, 0)
+    } catch {
+      // An invalid hash just leaves the dominant colour showing
+    }
+  }, [blurhash])
+
+  useEffect(() => setLoaded(false), [src])
+
+  return (
+    <div
+      className={`relative overflow-hidden ${className || ''}`}
+      style={{ backgroundColor: dominantColor }}
+      onClick={onClick}
+    >
+      {blurhash && !loaded && (
+        <canvas
+          ref={canvasRef}
+          width={PLACEHOLDER_SIZE}
+          height={PLACEHOLDER_SIZE}
+          className="absolute inset-0 h-full w-full"
+        />
+      )}
+      <img
+        src={src}
+        alt={alt}
+        loading="lazy"
+        draggable={false}
+        onLoad={() => setLoaded(true)}
+        className={`h-full w-full object-cover transition-opacity duration-300 ${
+          loaded ? 'opacity-100' : 'opacity-0'
+        }`}
+      />
+    </div>
+  )
+}
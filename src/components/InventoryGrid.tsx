@@ -1 +1,205 @@
+// src/components/InventoryGrid.tsx
+import { useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '@@/convex/_generated/api'
+import { toast } from 'sonner'
+import {
+  CheckSquare,
+  File as FileIcon,
+  FileText,
+  Image as ImageIcon,
+  Link2,
+} from 'lucide-react'
+import { ImageThumbnail } from './ImageThumbnail'
+import type { Id } from '@@/convex/_generated/dataModel'
+import { Button } from '@/components/ui/button'
+import { getErrorMessage } from '@/lib/errors'
 
+interface InventoryGridProps {
+  chestId: Id<'chests'>
+  canInteract: boolean
+  onEditItem: (item: any) => void
+}
+
+export function InventoryGrid({
+  chestId,
+  canInteract,
+  onEditItem,
+}: InventoryGridProps) {
+  const inventory = useQuery(api.items.getChestSlots, { chestId })
+  const fillEmptySlots = useMutation(api.items.fillEmptySlots)
+
+  // Swap locally right away so the dragged item doesn't snap back while saving
+  const moveItemToSlot = useMutation(
+    api.items.moveItemToSlot,
+  ).withOptimisticUpdate((localStore, args) => {
+    const current = localStore.getQuery(api.items.getChestSlots, { chestId })
+    const moving = current?.items.find((item) => item._id === args.itemId)
+    if (!current || !moving) return
+
+    localStore.setQuery(
+      api.items.getChestSlots,
+      { chestId },
+      {
+        ...current,
+        items: current.items.map((item) =>
+          item._id === args.itemId
+            ? { ...item, slot: args.slot }
+            : item.slot === args.slot
+              ? { ...item, slot: moving.slot }
+              : item,
+        ),
+      },
+    )
+  })
+
+  const [draggingId, setDraggingId] = useState<Id<'items'> | null>(null)
+  const [overSlot, setOverSlot] = useState<number | null>(null)
+
+  if (inventory === undefined) {
+    return (
+      <div className="flex justify-center items-center min-h-[200px]">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+      </div>
+    )
+  }
+
+  const itemsBySlot = new Map(inventory.items.map((item) => [item.slot, item]))
+
+  const handleDrop = async (slot: number) => {
+    const itemId = draggingId
+    setDraggingId(null)
+    setOverSlot(null)
+    if (!itemId) return
+
+    try {
+      await moveItemToSlot({ itemId, slot })
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to move item'))
+    }
+  }
+
+  const handleFillEmptySlots = async () => {
+    try {
+      const placed = await fillEmptySlots({ chestId })
+      toast.success(
+        placed > 0
+          ? `Placed ${placed} item${placed > 1 ? 's' : ''}`
+          : 'No free slots left',
+      )
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to fill slots'))
+    }
+  }
+
+  const getItemIcon = (type: string) => {
+    const iconClass = 'h-6 w-6'
+    switch (type) {
+      case 'link':
+        return <Link2 className={iconClass} />
+      case 'note':
+        return <FileText className={iconClass} />
+      case 'todo':
+        return <CheckSquare className={iconClass} />
+      case 'image':
+        return <ImageIcon className={iconClass} />
+      case 'file':
+        return <FileIcon className={iconClass} />
+      default:
+        return <FileText className={iconClass} />
+    }
+  }
+
+  return (
+    <div className="bg-card border rounded-lg">
+      <div className="p-4 border-b flex items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold">Inventory</h2>
+          <p className="text-xs text-muted-foreground">
+            {inventory.capacity !== null
+              ? `${inventory.items.length} of ${inventory.capacity} slots used`
+              : `${inventory.items.length} of ${inventory.slotCount} slots shown`}
+          </p>
+        </div>
+        {canInteract && inventory.hasUnslottedItems && (
+          <Button variant="outline" size="sm" onClick={handleFillEmptySlots}>
+            Fill empty slots
+          </Button>
+        )}
+      </div>
+
+      <div className="p-4 grid grid-cols-9 gap-1">
+        {Array.from({ length: inventory.slotCount }, (_, slot) => {
+          const item = itemsBySlot.get(slot)
+          const label =
+            item &&
+            (item.type === 'note'
+              ? item.content?.split('\n')[0]
+              : item.title || item.label || item.filename)
+
+          return (
+            <div
+              key={slot}
+              onDragOver={(e) => {
+                if (!draggingId) return
+                e.preventDefault()
+                setOverSlot(slot)
+              }}
+              onDragLeave={() => setOverSlot(null)}
+              onDrop={(e) => {
+                e.preventDefault()
+                handleDrop(slot)
+              }}
+              className={`relative aspect-square rounded-sm border bg-muted/50 overflow-hidden ${
+                overSlot === slot ? 'ring-2 ring-primary' : ''
+              }`}
+            >
+              {item && (
+                <button
+                  type="button"
+                  draggable={canInteract}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move'
+                    e.dataTransfer.setData('text/plain', item._id)
+                    setDraggingId(item._id)
+                  }}
+                  onDragEnd={() => {
+                    setDraggingId(null)
+                    setOverSlot(null)
+                  }}
+                  onClick={() => canInteract && onEditItem(item)}
+                  title={label || 'Untitled'}
+                  className={`absolute inset-0 flex items-center justify-center text-muted-foreground hover:bg-accent transition-colors ${
+                    canInteract ? 'cursor-grab active:cursor-grabbing' : ''
+                  } ${item.type === 'todo' && item.completed ? 'opacity-50' : ''} ${
+                    draggingId === item._id ? 'opacity-30' : ''
+                  }`}
+                >
+                  {item.type === 'image' && 'url' in item && item.url ? (
+                    <ImageThumbnail
+                      src={
+                        ('thumbnailUrl' in item && item.thumbnailUrl) ||
+                        item.url
+                      }
+                      alt={item.filename || 'Image'}
+                      blurhash={item.blurhash}
+                      dominantColor={item.dominantColor}
+                      className="h-full w-full"
+                    />
+                  ) : (
+                    getItemIcon(item.type)
+                  )}
+                  {item.stackSize > 1 && (
+                    <span className="absolute bottom-0.5 right-1 text-xs font-bold text-foreground drop-shadow">
+                      {item.stackSize}
+                    </span>
+                  )}
+                </button>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
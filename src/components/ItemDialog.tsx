@@ -1,9 +1,23 @@
 // src/components/ItemDialog.tsx - Simplified without labels
-import { useState, useRef, useEffect } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useMutation, useQuery } from 'convex/react'
 import { api } from '@@/convex/_generated/api'
-import type { Id } from '@@/convex/_generated/dataModel'
 import { toast } from 'sonner'
+import { parseRecurrence } from '@@/convex/recurrence'
+import { TagInput } from './TagInput'
+import { FilePreview } from './FilePreview'
+import { RepeatEditor } from './RepeatEditor'
+import { ReminderEditor } from './ReminderEditor'
+import { TodoHistory } from './TodoHistory'
+import { ChecklistEditor } from './ChecklistEditor'
+import type { Id } from '@@/convex/_generated/dataModel'
+import type { ChecklistEntry } from './ChecklistEditor'
+import { getLocalTimeZone } from '@/lib/dueDates'
+import { getErrorMessage } from '@/lib/errors'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
 import {
   Dialog,
   DialogContent,
@@ -12,11 +26,6 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { Button } from '@/components/ui/button'
-import { Input } from '@/components/ui/input'
-import { Textarea } from '@/components/ui/textarea'
-import { Label } from '@/components/ui/label'
-import { TagInput } from './TagInput'
 
 interface ItemDialogProps {
   chestId: Id<'chests'>
@@ -25,6 +34,22 @@ interface ItemDialogProps {
   onOpenChange: (open: boolean) => void
 }
 
+// Entries are sent with their completion only where the dialog ticked or
+// unticked them, so ticks made in the list while it was open are kept
+function getChecklistChanges(
+  opened: Array<ChecklistEntry> | undefined,
+  edited: Array<ChecklistEntry>,
+) {
+  const openedCompleted = new Map(
+    opened?.map((entry) => [entry.id, entry.completed]),
+  )
+  return edited.map(({ id, label, completed }) =>
+    openedCompleted.get(id) === completed
+      ? { id, label }
+      : { id, label, completed },
+  )
+}
+
 export function ItemDialog({
   chestId,
   item,
@@ -32,7 +57,7 @@ export function ItemDialog({
   onOpenChange,
 }: ItemDialogProps) {
   const updateItem = useMutation(api.items.updateItem)
-  const items = useQuery(api.items.getChestItems, { chestId })
+  const chestTags = useQuery(api.items.getChestTags, { chestId })
 
   const [isSubmitting, setIsSubmitting] = useState(false)
 
@@ -41,14 +66,15 @@ export function ItemDialog({
   const [content, setContent] = useState('')
   const [label, setLabel] = useState('')
   const [dateTime, setDateTime] = useState('')
-  const [tags, setTags] = useState<string[]>([])
+  const [recurrence, setRecurrence] = useState('')
+  const [tags, setTags] = useState<Array<string>>([])
+  const [checklist, setChecklist] = useState<Array<ChecklistEntry>>([])
+  const [checklistEdited, setChecklistEdited] = useState(false)
 
   const isEditing = item !== null
 
   // Get all existing tags for suggestions
-  const allTags = Array.from(
-    new Set(items?.flatMap((i) => i.tags || []) || []),
-  ).sort()
+  const allTags = chestTags || []
 
   useEffect(() => {
     if (item && open) {
@@ -56,7 +82,10 @@ export function ItemDialog({
       setTitle(item.title || '')
       setContent(item.content || '')
       setLabel(item.label || '')
+      setRecurrence(item.recurrence || '')
       setTags(item.tags || [])
+      setChecklist(item.checklist || [])
+      setChecklistEdited(false)
       if (item.dateTime) {
         const d = new Date(item.dateTime)
         d.setMinutes(d.getMinutes() - d.getTimezoneOffset())
@@ -71,7 +100,10 @@ export function ItemDialog({
       setContent('')
       setLabel('')
       setDateTime('')
+      setRecurrence('')
       setTags([])
+      setChecklist([])
+      setChecklistEdited(false)
     }
   }, [item, open])
 
@@ -79,6 +111,19 @@ export function ItemDialog({
     e.preventDefault()
     if (!isEditing) return
 
+    if (recurrence) {
+      if (!dateTime) {
+        toast.error('A repeating todo needs a date')
+        return
+      }
+      try {
+        parseRecurrence(recurrence)
+      } catch (error) {
+        toast.error(getErrorMessage(error, 'Invalid repeat rule'))
+        return
+      }
+    }
+
     setIsSubmitting(true)
     try {
       const parsedDateTime = dateTime ? new Date(dateTime).getTime() : undefined
@@ -97,6 +142,15 @@ export function ItemDialog({
         updates.content = content.trim() || undefined
       } else if (item.type === 'todo') {
         updates.label = label.trim() || undefined
+        if (checklistEdited) {
+          updates.checklist = getChecklistChanges(item.checklist, checklist)
+        }
+        if (recurrence) {
+          updates.recurrence = recurrence
+          updates.timeZone = getLocalTimeZone()
+        } else if (item.recurrence) {
+          updates.recurrence = null
+        }
       }
 
       await updateItem(updates)
@@ -104,7 +158,7 @@ export function ItemDialog({
       onOpenChange(false)
     } catch (error) {
       console.error('Error updating item:', error)
-      toast.error('Failed to update item')
+      toast.error(getErrorMessage(error, 'Failed to update item'))
     } finally {
       setIsSubmitting(false)
     }
@@ -123,6 +177,9 @@ export function ItemDialog({
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          {/* File preview */}
+          {item?.type === 'file' && item.url && <FilePreview file={item} />}
+
           {/* Type-specific fields */}
           {item?.type === 'link' && (
             <>
@@ -163,15 +220,25 @@ export function ItemDialog({
           )}
 
           {item?.type === 'todo' && (
-            <div className="space-y-2">
-              <Label htmlFor="label">Todo Item</Label>
-              <Input
-                id="label"
-                value={label}
-                onChange={(e) => setLabel(e.target.value)}
-                placeholder="What needs to be done?"
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="label">Todo Item</Label>
+                <Input
+                  id="label"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="What needs to be done?"
+                />
+              </div>
+
+              <ChecklistEditor
+                entries={checklist}
+                onChange={(entries) => {
+                  setChecklist(entries)
+                  setChecklistEdited(true)
+                }}
               />
-            </div>
+            </>
           )}
 
           {/* Date & Time */}
@@ -185,6 +252,22 @@ export function ItemDialog({
             />
           </div>
 
+          <ReminderEditor
+            itemId={item._id}
+            hasDate={item.dateTime !== undefined}
+          />
+
+          {item?.type === 'todo' && (
+            <>
+              <RepeatEditor
+                value={recurrence}
+                onChange={setRecurrence}
+                weekday={(dateTime ? new Date(dateTime) : new Date()).getDay()}
+              />
+              <TodoHistory itemId={item._id} />
+            </>
+          )}
+
           {/* Tags */}
           <TagInput
             tags={tags}
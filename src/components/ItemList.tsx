@@ -1,8 +1,13 @@
 // src/components/ItemList.tsx
-import { useState, useMemo } from 'react'
+import { useCallback, useMemo, useState } from 'react'
+import { usePaginatedQuery, useQuery } from 'convex/react'
+import { api } from '@@/convex/_generated/api'
+import { Calendar, Filter, LayoutGrid, List, Search, X } from 'lucide-react'
 import { ItemCard } from './ItemCard'
 import { QuickAddTodo } from './QuickAddTodo'
+import { LoadMoreTrigger } from './LoadMoreTrigger'
 import type { Id } from '@@/convex/_generated/dataModel'
+import type { TypeFilter, ViewMode } from '@/lib/itemFilters'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
@@ -14,7 +19,7 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { Input } from '@/components/ui/input'
-import { Calendar, LayoutGrid, List, Filter, X, Search } from 'lucide-react'
+import { startOfToday } from '@/lib/itemFilters'
 
 interface Item {
   _id: Id<'items'>
@@ -28,7 +33,7 @@ interface Item {
   filename?: string
   mimeType?: string
   dateTime?: number
-  tags?: string[]
+  tags?: Array<string>
   linkPreview?: {
     title?: string
     description?: string
@@ -37,108 +42,59 @@ interface Item {
 }
 
 interface ItemListProps {
-  items: Item[]
   canInteract: boolean
   onEditItem: (item: Item) => void
   chestId: Id<'chests'>
 }
 
-type ViewMode = 'all' | 'today' | 'week' | 'month'
 type LayoutMode = 'grid' | 'list'
 
-export function ItemList({
-  items,
-  canInteract,
-  onEditItem,
-  chestId,
-}: ItemListProps) {
+const PAGE_SIZE = 30
+
+export function ItemList({ canInteract, onEditItem, chestId }: ItemListProps) {
   const [viewMode, setViewMode] = useState<ViewMode>('all')
   const [layoutMode, setLayoutMode] = useState<LayoutMode>('grid')
-  const [selectedTags, setSelectedTags] = useState<string[]>([])
+  const [selectedTags, setSelectedTags] = useState<Array<string>>([])
   const [searchQuery, setSearchQuery] = useState('')
-  const [typeFilter, setTypeFilter] = useState<string>('all')
-
-  // Extract all unique tags
-  const allTags = useMemo(() => {
-    const tagSet = new Set<string>()
-    items.forEach((item) => {
-      item.tags?.forEach((tag) => tagSet.add(tag))
-    })
-    return Array.from(tagSet).sort()
-  }, [items])
-
-  // Filter items based on view mode, tags, search, and type
-  const filteredItems = useMemo(() => {
-    let filtered = [...items]
-
-    // Filter by view mode (date-based)
-    if (viewMode !== 'all') {
-      const now = new Date()
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all')
 
-      filtered = filtered.filter((item) => {
-        if (!item.dateTime) return false
-        const itemDate = new Date(item.dateTime)
-        const itemDay = new Date(
-          itemDate.getFullYear(),
-          itemDate.getMonth(),
-          itemDate.getDate(),
-        )
-
-        if (viewMode === 'today') {
-          return itemDay.getTime() === today.getTime()
-        } else if (viewMode === 'week') {
-          const weekFromNow = new Date(
-            today.getTime() + 7 * 24 * 60 * 60 * 1000,
-          )
-          return itemDay >= today && itemDay <= weekFromNow
-        } else if (viewMode === 'month') {
-          const monthFromNow = new Date(
-            today.getFullYear(),
-            today.getMonth() + 1,
-            today.getDate(),
-          )
-          return itemDay >= today && itemDay <= monthFromNow
-        }
-        return true
-      })
-    }
-
-    // Filter by tags
-    if (selectedTags.length > 0) {
-      filtered = filtered.filter((item) =>
-        selectedTags.some((tag) => item.tags?.includes(tag)),
-      )
-    }
-
-    // Filter by type
-    if (typeFilter !== 'all') {
-      filtered = filtered.filter((item) => item.type === typeFilter)
-    }
+  const tags = useQuery(api.items.getChestTags, { chestId })
+  const {
+    results: filteredItems,
+    status,
+    loadMore,
+  } = usePaginatedQuery(
+    api.items.getChestItemsPage,
+    {
+      chestId,
+      section: 'all',
+      filters: {
+        type: typeFilter,
+        tags: selectedTags,
+        viewMode,
+        search: searchQuery,
+        today: startOfToday(),
+      },
+    },
+    { initialNumItems: PAGE_SIZE },
+  )
 
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase()
-      filtered = filtered.filter((item) => {
-        const searchableText = [
-          item.title,
-          item.label,
-          item.content,
-          item.filename,
-          ...(item.tags || []),
-        ]
-          .filter(Boolean)
-          .join(' ')
-          .toLowerCase()
-        return searchableText.includes(query)
-      })
-    }
+  // Stable, so LoadMoreTrigger keeps its observer between renders
+  const handleLoadMore = useCallback(() => loadMore(PAGE_SIZE), [loadMore])
 
-    return filtered
-  }, [items, viewMode, selectedTags, searchQuery, typeFilter])
+  const allTags = tags || []
+  const hasActiveFilters =
+    selectedTags.length > 0 ||
+    searchQuery ||
+    typeFilter !== 'all' ||
+    viewMode !== 'all'
 
-  // Separate and sort items: incomplete todos first, then by date
+  // Separate and sort items: incomplete todos first, then by date. Search
+  // results keep the order the search index ranked them in.
+  const isSearching = searchQuery.trim() !== ''
   const sortedItems = useMemo(() => {
+    if (isSearching) return filteredItems
+
     const todos = filteredItems.filter((item) => item.type === 'todo')
     const incompleteTodos = todos.filter((item) => !item.completed)
     const completedTodos = todos.filter((item) => item.completed)
@@ -157,7 +113,7 @@ export function ItemList({
       ...otherItems.sort(sortByDate),
       ...completedTodos.sort(sortByDate),
     ]
-  }, [filteredItems])
+  }, [filteredItems, isSearching])
 
   const toggleTag = (tag: string) => {
     setSelectedTags((prev) =>
@@ -165,7 +121,7 @@ export function ItemList({
     )
   }
 
-  if (items.length === 0) {
+  if (status === 'Exhausted' && !hasActiveFilters && sortedItems.length === 0) {
     return (
       <div className="text-center py-12 space-y-4">
         <div className="text-4xl mb-4">✨</div>
@@ -201,7 +157,10 @@ export function ItemList({
           </Tabs>
 
           <div className="flex gap-2">
-            <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <Select
+              value={typeFilter}
+              onValueChange={(v) => setTypeFilter(v as TypeFilter)}
+            >
               <SelectTrigger className="w-[140px]">
                 <SelectValue placeholder="All Types" />
               </SelectTrigger>
@@ -267,13 +226,10 @@ export function ItemList({
         )}
 
         {/* Active Filters Summary */}
-        {(selectedTags.length > 0 ||
-          searchQuery ||
-          typeFilter !== 'all' ||
-          viewMode !== 'all') && (
+        {hasActiveFilters && (
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground">
-              Showing {sortedItems.length} of {items.length} items
+              Showing {sortedItems.length} matching items
             </span>
             <Button
               variant="ghost"
@@ -292,7 +248,7 @@ export function ItemList({
       </div>
 
       {/* Items Grid/List */}
-      {sortedItems.length === 0 ? (
+      {status === 'LoadingFirstPage' ? null : sortedItems.length === 0 ? (
         <div className="text-center py-12 border-2 border-dashed rounded-lg">
           <p className="text-muted-foreground">No items match your filters</p>
         </div>
@@ -314,6 +270,8 @@ export function ItemList({
           ))}
         </div>
       )}
+
+      <LoadMoreTrigger status={status} onLoadMore={handleLoadMore} />
     </div>
   )
 }
@@ -1,15 +1,18 @@
 // src/components/ItemModal.tsx
-import { useState, useRef, useEffect } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useMutation } from 'convex/react'
 import { api } from '@@/convex/_generated/api'
-import type { Id } from '@@/convex/_generated/dataModel'
 import { toast } from 'sonner'
+import type { Id } from '@@/convex/_generated/dataModel'
+import { getErrorMessage } from '@/lib/errors'
+import { useUploadFile } from '@/lib/uploads'
+import { getLocalTimeZone } from '@/lib/dueDates'
 
 interface Item {
   _id: Id<'items'>
   type: 'link' | 'note' | 'todo' | 'image' | 'file'
   dateTime?: number
-  tags?: string[]
+  tags?: Array<string>
   url?: string
   title?: string
   content?: string
@@ -25,7 +28,7 @@ interface ItemModalProps {
 export function ItemModal({ chestId, item, onClose }: ItemModalProps) {
   const addItem = useMutation(api.items.addItem)
   const updateItem = useMutation(api.items.updateItem)
-  const generateUploadUrl = useMutation(api.items.generateUploadUrl)
+  const uploadFile = useUploadFile(chestId)
 
   const [itemType, setItemType] = useState<
     'link' | 'note' | 'todo' | 'image' | 'file'
@@ -85,7 +88,7 @@ export function ItemModal({ chestId, item, onClose }: ItemModalProps) {
         await updateItem(updates)
         toast.success('Item updated successfully!')
       } else {
-        let itemData: any = {
+        const itemData: any = {
           chestId,
           type: itemType,
           tags: parsedTags,
@@ -115,18 +118,12 @@ export function ItemModal({ chestId, item, onClose }: ItemModalProps) {
             setIsSubmitting(false)
             return
           }
-          const uploadUrl = await generateUploadUrl()
-          const result = await fetch(uploadUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': selectedFile.type },
-            body: selectedFile,
-          })
-          if (!result.ok) throw new Error('Upload failed')
-          const { storageId } = await result.json()
+          const storageId = await uploadFile(selectedFile, itemType)
           itemData.storageId = storageId
           itemData.filename = selectedFile.name
           itemData.mimeType = selectedFile.type
           itemData.fileSize = selectedFile.size
+          itemData.timeZone = getLocalTimeZone()
         }
 
         await addItem(itemData)
@@ -135,7 +132,12 @@ export function ItemModal({ chestId, item, onClose }: ItemModalProps) {
       onClose()
     } catch (error) {
       console.error('Error saving item:', error)
-      toast.error(`Failed to ${isEditing ? 'update' : 'add'} item`)
+      toast.error(
+        getErrorMessage(
+          error,
+          `Failed to ${isEditing ? 'update' : 'add'} item`,
+        ),
+      )
     } finally {
       setIsSubmitting(false)
     }
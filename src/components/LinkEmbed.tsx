@@ -0,0 +1,37 @@
+// src/components/LinkEmbed.tsx
+import { isTrustedEmbedUrl } from '@@/convex/embeds'
+import type { EmbedType } from '@@/convex/embeds'
+
+interface LinkEmbedProps {
+  provider: string
+  type: EmbedType
+  embedUrl: string
+  title?: string
+}
+
+const FRAME_CLASSES: Record<EmbedType, string> = {
+  video: 'w-full aspect-video',
+  audio: 'w-full h-[152px]',
+  code: 'w-full h-72',
+  social: 'w-full h-[480px]',
+}
+
+// Players are sandboxed: no top-level navigation, forms or modal dialogs
+export function LinkEmbed({ provider, type, embedUrl, title }: LinkEmbedProps) {
+  if (!isTrustedEmbedUrl(provider, embedUrl)) return null
+
+  return (
+    <div className="border rounded-lg overflow-hidden bg-muted">
+      <iframe
+        src={embedUrl}
+        title={title || `${provider} embed`}
+        className={FRAME_CLASSES[type]}
+        loading="lazy"
+        sandbox="allow-scripts allow-same-origin allow-popups allow-presentation"
+        allow="encrypted-media; picture-in-picture; fullscreen"
+        referrerPolicy="strict-origin-when-cross-origin"
+        allowFullScreen
+      />
+    </div>
+  )
+}
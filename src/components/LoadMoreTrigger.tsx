@@ -0,0 +1,40 @@
+// src/components/LoadMoreTrigger.tsx
+import { useEffect, useRef } from 'react'
+import { Loader2 } from 'lucide-react'
+import type { PaginationStatus } from 'convex/react'
+
+interface LoadMoreTriggerProps {
+  status: PaginationStatus
+  onLoadMore: () => void
+}
+
+// Calls onLoadMore whenever the sentinel scrolls into view and more pages exist
+export function LoadMoreTrigger({ status, onLoadMore }: LoadMoreTriggerProps) {
+  const sentinelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel || status !== 'CanLoadMore') return
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore()
+        }
+      },
+      { rootMargin: '200px' },
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [status, onLoadMore])
+
+  if (status === 'Exhausted') return null
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-4">
+      {status === 'LoadingMore' && (
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+// src/components/NotificationBell.tsx
+import { useEffect, useRef, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { useNavigate } from '@tanstack/react-router'
+import { api } from '@@/convex/_generated/api'
+import { toast } from 'sonner'
+import { Bell, BellOff, BellRing } from 'lucide-react'
+import type { Doc } from '@@/convex/_generated/dataModel'
+import { Button } from '@/components/ui/button'
+import { getErrorMessage } from '@/lib/errors'
+import { usePushNotifications } from '@/lib/push'
+
+// Reminders that fired, in a dropdown from the header. New ones pop up as a
+// toast from NotificationToasts.
+export function NotificationBell() {
+  const data = useQuery(api.notifications.getNotifications)
+  const markRead = useMutation(api.notifications.markNotificationRead)
+  const markAllRead = useMutation(api.notifications.markAllNotificationsRead)
+  const push = usePushNotifications()
+  const navigate = useNavigate()
+
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const notifications = data?.notifications ?? []
+  const unreadCount = data?.unreadCount ?? 0
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setIsOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [isOpen])
+
+  const openNotification = (notification: Doc<'notifications'>) => {
+    setIsOpen(false)
+    if (notification.readAt === undefined) {
+      void markRead({ notificationId: notification._id })
+    }
+    void navigate({
+      to: '/chest/$chestId',
+      params: { chestId: notification.chestId },
+      search: { item: notification.itemId },
+    })
+  }
+
+  const togglePush = async () => {
+    try {
+      if (push.isEnabled) {
+        await push.disable()
+        toast.success('Push notifications turned off')
+      } else {
+        await push.enable()
+        toast.success('Push notifications turned on')
+      }
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to change push notifications'))
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => setIsOpen(!isOpen)}
+        title="Notifications"
+        aria-label={`Notifications${unreadCount > 0 ? ` (${unreadCount} unread)` : ''}`}
+        className="relative"
+      >
+        <Bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-destructive text-[10px] leading-4 text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-80 rounded-lg border bg-popover text-popover-foreground shadow-md z-50">
+          <div className="flex items-center justify-between px-3 py-2 border-b">
+            <p className="text-sm font-medium">Notifications</p>
+            {unreadCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => void markAllRead()}
+              >
+                Mark all read
+              </Button>
+            )}
+          </div>
+
+          <div className="max-h-80 overflow-y-auto p-1">
+            {notifications.length === 0 ? (
+              <p className="px-2 py-6 text-center text-sm text-muted-foreground">
+                No notifications yet. Add a reminder to a dated item.
+              </p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification._id}
+                  type="button"
+                  onClick={() => openNotification(notification)}
+                  className="w-full text-left rounded-md px-2 py-2 hover:bg-accent flex gap-2"
+                >
+                  <span
+                    className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${
+                      notification.readAt === undefined ? 'bg-primary' : ''
+                    }`}
+                  />
+                  <span className="min-w-0">
+                    <span className="block text-sm font-medium truncate">
+                      {notification.title}
+                    </span>
+                    {notification.body && (
+                      <span className="block text-xs text-muted-foreground">
+                        {notification.body}
+                      </span>
+                    )}
+                    <span className="block text-xs text-muted-foreground">
+                      {new Date(notification._creationTime).toLocaleString()}
+                    </span>
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+
+          {push.isSupported && (
+            <div className="border-t p-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full justify-start text-xs"
+                onClick={togglePush}
+              >
+                {push.isEnabled ? (
+                  <BellOff className="h-3 w-3 mr-2" />
+                ) : (
+                  <BellRing className="h-3 w-3 mr-2" />
+                )}
+                {push.isEnabled
+                  ? 'Turn off push notifications in this browser'
+                  : 'Get push notifications in this browser'}
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
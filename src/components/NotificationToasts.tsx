@@ -0,0 +1,28 @@
+// src/components/NotificationToasts.tsx
+import { useEffect, useRef } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '@@/convex/_generated/api'
+import { toast } from 'sonner'
+
+// Pops up reminders that fire while the app is open. Mounted once at the
+// root, so a page with several notification bells still shows each one once.
+export function NotificationToasts() {
+  const data = useQuery(api.notifications.getNotifications)
+  const openedAt = useRef(Date.now())
+  const announced = useRef(new Set<string>())
+
+  useEffect(() => {
+    for (const notification of data?.notifications ?? []) {
+      if (
+        notification._creationTime > openedAt.current &&
+        notification.readAt === undefined &&
+        !announced.current.has(notification._id)
+      ) {
+        announced.current.add(notification._id)
+        toast(notification.title, { description: notification.body })
+      }
+    }
+  }, [data])
+
+  return null
+}
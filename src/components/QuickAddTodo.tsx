@@ -1,12 +1,18 @@
 // src/components/QuickAddTodo.tsx
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { useMutation } from 'convex/react'
 import { api } from '@@/convex/_generated/api'
-import type { Id } from '@@/convex/_generated/dataModel'
 import { toast } from 'sonner'
+import { describeRecurrence } from '@@/convex/recurrence'
+import { Calendar, Check, Plus, Repeat } from 'lucide-react'
+import type { Id } from '@@/convex/_generated/dataModel'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
-import { Plus, Check } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { getErrorMessage } from '@/lib/errors'
+import { useMoveTargets } from '@/lib/chests'
+import { findChestByName, parseMessage } from '@/lib/commands'
+import { formatDueDate, getLocalTimeZone } from '@/lib/dueDates'
 
 interface QuickAddTodoProps {
   chestId: Id<'chests'>
@@ -18,27 +24,58 @@ export function QuickAddTodo({ chestId }: QuickAddTodoProps) {
   const [isAdding, setIsAdding] = useState(false)
   const [isFocused, setIsFocused] = useState(false)
 
+  const moveTargets = useMoveTargets(chestId)
+
+  // Same commands as the chat input, e.g. "Buy milk /due tomorrow #shopping",
+  // and dates written out: "Buy milk tomorrow 9am"
+  const parsed = useMemo(
+    () => parseMessage(label, { naturalDates: true }),
+    [label],
+  )
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!label.trim()) return
 
+    if (parsed.errors.length > 0) {
+      toast.error(parsed.errors[0])
+      return
+    }
+    if (parsed.type && parsed.type !== 'todo') {
+      toast.error(
+        `Only todos can be added here; use /${parsed.type} in the chat input.`,
+      )
+      return
+    }
+    if (!parsed.text) {
+      toast.error('Add what needs doing.')
+      return
+    }
+
+    let target: (typeof moveTargets)[number] | undefined
+    if (parsed.moveTo) {
+      target = findChestByName(moveTargets, parsed.moveTo)
+      if (!target) {
+        toast.error(`You have no other chest named "${parsed.moveTo}".`)
+        return
+      }
+    }
+
     setIsAdding(true)
     try {
-      // Parse tags from label (e.g., "Buy milk #shopping #urgent")
-      const tagRegex = /#(\w+)/g
-      const tags = Array.from(label.matchAll(tagRegex)).map((match) => match[1])
-      const cleanLabel = label.replace(/#\w+/g, '').trim()
-
       await addItem({
-        chestId,
+        chestId: target?._id ?? chestId,
         type: 'todo',
-        label: cleanLabel,
-        tags: tags.length > 0 ? tags : undefined,
+        label: parsed.text,
+        tags: parsed.tags.length > 0 ? parsed.tags : undefined,
+        dateTime: parsed.dueDate,
+        recurrence: parsed.recurrence,
+        timeZone: parsed.recurrence ? getLocalTimeZone() : undefined,
       })
       setLabel('')
-      toast.success('Todo added!')
+      toast.success(target ? `Todo added to "${target.name}"!` : 'Todo added!')
     } catch (error) {
-      toast.error('Failed to add todo')
+      toast.error(getErrorMessage(error, 'Failed to add todo'))
     } finally {
       setIsAdding(false)
     }
@@ -61,7 +98,7 @@ export function QuickAddTodo({ chestId }: QuickAddTodoProps) {
         <div className="flex-1 flex items-center gap-2">
           <Plus className="h-5 w-5 text-muted-foreground" />
           <Input
-            placeholder="Add a quick todo... (Press Enter) - Use #tags"
+            placeholder="Add a quick todo... (Press Enter) - Try #tags or tomorrow 9am"
             value={label}
             onChange={(e) => setLabel(e.target.value)}
             onFocus={() => setIsFocused(true)}
@@ -82,6 +119,20 @@ export function QuickAddTodo({ chestId }: QuickAddTodoProps) {
           </Button>
         )}
       </form>
+      {parsed.dueDate !== undefined && (
+        <div className="flex gap-2 pt-2 pl-7">
+          <Badge variant="secondary" className="gap-1 text-xs">
+            <Calendar className="h-3 w-3" />
+            {formatDueDate(parsed.dueDate)}
+          </Badge>
+          {parsed.recurrence && (
+            <Badge variant="secondary" className="gap-1 text-xs">
+              <Repeat className="h-3 w-3" />
+              {describeRecurrence(parsed.recurrence)}
+            </Badge>
+          )}
+        </div>
+      )}
     </div>
   )
 }
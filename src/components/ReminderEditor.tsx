@@ -0,0 +1,123 @@
+// src/components/ReminderEditor.tsx
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '@@/convex/_generated/api'
+import { toast } from 'sonner'
+import { AlarmClock, X } from 'lucide-react'
+import type { Id } from '@@/convex/_generated/dataModel'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { getErrorMessage } from '@/lib/errors'
+
+const REMINDER_OPTIONS = [
+  { minutes: 0, label: 'At the due time' },
+  { minutes: 5, label: '5 minutes before' },
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 30, label: '30 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 2 * 60, label: '2 hours before' },
+  { minutes: 24 * 60, label: '1 day before' },
+  { minutes: 2 * 24 * 60, label: '2 days before' },
+  { minutes: 7 * 24 * 60, label: '1 week before' },
+]
+
+function getLabel(minutes: number) {
+  return (
+    REMINDER_OPTIONS.find((option) => option.minutes === minutes)?.label ??
+    `${minutes} minutes before`
+  )
+}
+
+interface ReminderEditorProps {
+  itemId: Id<'items'>
+  // The saved date; reminders follow it when it changes
+  hasDate: boolean
+}
+
+// The current user's reminders for an item. They're saved straight away,
+// apart from the rest of the dialog.
+export function ReminderEditor({ itemId, hasDate }: ReminderEditorProps) {
+  const reminders = useQuery(api.reminders.getItemReminders, { itemId })
+  const addReminder = useMutation(api.reminders.addReminder)
+  const removeReminder = useMutation(api.reminders.removeReminder)
+
+  const handleAdd = async (value: string) => {
+    try {
+      await addReminder({ itemId, minutesBefore: Number(value) })
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to add reminder'))
+    }
+  }
+
+  const handleRemove = async (reminderId: Id<'reminders'>) => {
+    try {
+      await removeReminder({ reminderId })
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to remove reminder'))
+    }
+  }
+
+  const taken = new Set(reminders?.map((reminder) => reminder.minutesBefore))
+  const options = REMINDER_OPTIONS.filter(
+    (option) => !taken.has(option.minutes),
+  )
+
+  return (
+    <div className="space-y-2">
+      <Label>Reminders</Label>
+      {!hasDate ? (
+        <p className="text-xs text-muted-foreground">
+          Save a date first to get reminded of it.
+        </p>
+      ) : (
+        <>
+          {reminders && reminders.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {reminders.map((reminder) => (
+                <Badge
+                  key={reminder._id}
+                  variant="secondary"
+                  className="gap-1 text-xs"
+                >
+                  <AlarmClock className="h-3 w-3" />
+                  {getLabel(reminder.minutesBefore)}
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(reminder._id)}
+                    className="ml-1 hover:text-destructive"
+                    aria-label={`Remove reminder ${getLabel(reminder.minutesBefore)}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          {options.length > 0 && (
+            <Select value="" onValueChange={handleAdd}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Add a reminder" />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map((option) => (
+                  <SelectItem
+                    key={option.minutes}
+                    value={String(option.minutes)}
+                  >
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+// src/components/RepeatEditor.tsx
+import { useState } from 'react'
+import {
+  WEEKDAY_CODES,
+  describeRecurrence,
+  parseRecurrence,
+} from '@@/convex/recurrence'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { getErrorMessage } from '@/lib/errors'
+
+type RepeatMode = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly' | 'custom'
+
+// Monday first, matching how the rules are described
+const WEEK = [1, 2, 3, 4, 5, 6, 0]
+const WEEKDAY_LETTERS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+
+// The preset a rule was made with, or custom for anything the presets can't
+// express (intervals, counts, end dates...)
+function getMode(rule: string): RepeatMode {
+  if (!rule) return 'none'
+  try {
+    const recurrence = parseRecurrence(rule)
+    const isSimple =
+      recurrence.interval === 1 && !recurrence.count && !recurrence.until
+    if (!isSimple) return 'custom'
+    if (recurrence.freq === 'DAILY' && !recurrence.byDay) return 'daily'
+    if (recurrence.freq === 'WEEKLY') return 'weekly'
+    if (recurrence.freq === 'MONTHLY' && !recurrence.byMonthDay?.[1]) {
+      return 'monthly'
+    }
+    if (recurrence.freq === 'YEARLY') return 'yearly'
+  } catch {
+    // Unreadable rules can be fixed in the custom field
+  }
+  return 'custom'
+}
+
+function getWeekdays(rule: string) {
+  try {
+    return parseRecurrence(rule).byDay
+  } catch {
+    return undefined
+  }
+}
+
+interface RepeatEditorProps {
+  // RRULE, or '' for no repeat
+  value: string
+  onChange: (rule: string) => void
+  // Weekday of the todo's date, for a plain weekly repeat
+  weekday: number
+}
+
+export function RepeatEditor({ value, onChange, weekday }: RepeatEditorProps) {
+  // Picking "Custom rule" keeps the text field open even for a rule a preset
+  // could show
+  const [isCustom, setIsCustom] = useState(false)
+  const mode = isCustom ? 'custom' : getMode(value)
+
+  const handleModeChange = (next: RepeatMode) => {
+    setIsCustom(next === 'custom')
+    switch (next) {
+      case 'none':
+        onChange('')
+        break
+      case 'daily':
+        onChange('FREQ=DAILY')
+        break
+      case 'weekly':
+        onChange(`FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[weekday]}`)
+        break
+      // The server pins this to the day of the todo's date
+      case 'monthly':
+        onChange('FREQ=MONTHLY')
+        break
+      case 'yearly':
+        onChange('FREQ=YEARLY')
+        break
+      case 'custom':
+        onChange(value || 'FREQ=WEEKLY;INTERVAL=2')
+        break
+    }
+  }
+
+  const selectedDays = getWeekdays(value) ?? [weekday]
+  const toggleDay = (day: number) => {
+    const days = selectedDays.includes(day)
+      ? selectedDays.filter((selected) => selected !== day)
+      : [...selectedDays, day]
+    // A weekly repeat needs at least one day
+    if (days.length === 0) return
+    onChange(
+      `FREQ=WEEKLY;BYDAY=${days.map((selected) => WEEKDAY_CODES[selected]).join(',')}`,
+    )
+  }
+
+  let description = ''
+  let error = ''
+  if (value) {
+    try {
+      parseRecurrence(value)
+      description = describeRecurrence(value)
+    } catch (e) {
+      error = getErrorMessage(e, 'Invalid repeat rule')
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="repeat">Repeat</Label>
+      <Select
+        value={mode}
+        onValueChange={(next) => handleModeChange(next as RepeatMode)}
+      >
+        <SelectTrigger id="repeat" className="w-[180px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Never</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekly">Weekly</SelectItem>
+          <SelectItem value="monthly">Monthly</SelectItem>
+          <SelectItem value="yearly">Yearly</SelectItem>
+          <SelectItem value="custom">Custom rule</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {mode === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEK.map((day) => (
+            <Button
+              key={day}
+              type="button"
+              size="icon"
+              variant={selectedDays.includes(day) ? 'default' : 'outline'}
+              className="h-8 w-8"
+              aria-pressed={selectedDays.includes(day)}
+              onClick={() => toggleDay(day)}
+            >
+              {WEEKDAY_LETTERS[day]}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {mode === 'custom' && (
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+          className="font-mono text-sm"
+        />
+      )}
+
+      {error ? (
+        <p className="text-xs text-destructive">{error}</p>
+      ) : (
+        description && (
+          <p className="text-xs text-muted-foreground">{description}</p>
+        )
+      )}
+    </div>
+  )
+}
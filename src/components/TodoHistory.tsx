@@ -0,0 +1,36 @@
+// src/components/TodoHistory.tsx
+import { useQuery } from 'convex/react'
+import { api } from '@@/convex/_generated/api'
+import { Check } from 'lucide-react'
+import type { Id } from '@@/convex/_generated/dataModel'
+
+interface TodoHistoryProps {
+  itemId: Id<'items'>
+}
+
+// Completed occurrences of a repeating todo, newest first
+export function TodoHistory({ itemId }: TodoHistoryProps) {
+  const completions = useQuery(api.items.getTodoCompletions, { itemId })
+
+  if (!completions || completions.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">History</p>
+      <ul className="max-h-40 overflow-y-auto space-y-1 text-xs text-muted-foreground">
+        {completions.map((completion) => (
+          <li key={completion._id} className="flex items-center gap-2">
+            <Check className="h-3 w-3 text-primary" />
+            <span>
+              {completion.dateTime !== undefined &&
+                `${new Date(completion.dateTime).toLocaleDateString()}: `}
+              done {new Date(completion.completedAt).toLocaleString()}
+              {completion.completedByName &&
+                ` by ${completion.completedByName}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
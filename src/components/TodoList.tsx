@@ -1,9 +1,22 @@
 // src/components/TodoList.tsx
-import { useMemo, useState } from 'react'
+import { useState } from 'react'
 import { useMutation } from 'convex/react'
 import { api } from '@@/convex/_generated/api'
-import type { Id } from '@@/convex/_generated/dataModel'
 import { toast } from 'sonner'
+import {
+  Calendar,
+  ChevronDown,
+  ChevronUp,
+  Edit2,
+  ListChecks,
+  Repeat,
+  Trash2,
+} from 'lucide-react'
+import { describeRecurrence } from '@@/convex/recurrence'
+import { LoadMoreTrigger } from './LoadMoreTrigger'
+import type { Id } from '@@/convex/_generated/dataModel'
+import type { PaginationStatus } from 'convex/react'
+import type { ChecklistEntry } from './ChecklistEditor'
 import { Checkbox } from '@/components/ui/checkbox'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -17,7 +30,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
-import { Trash2, Calendar, ChevronDown, ChevronUp, Edit2 } from 'lucide-react'
+import { formatDueDate } from '@/lib/dueDates'
 
 interface Todo {
   _id: Id<'items'>
@@ -25,100 +38,169 @@ interface Todo {
   label?: string
   completed?: boolean
   dateTime?: number
-  tags?: string[]
+  recurrence?: string
+  checklist?: Array<ChecklistEntry>
+  tags?: Array<string>
 }
 
 interface TodoListProps {
-  todos: Todo[]
+  todos: Array<Todo>
   canInteract: boolean
-  searchQuery: string
-  selectedTags: string[]
-  viewMode: 'all' | 'today' | 'week' | 'month'
   onEditTodo: (todo: Todo) => void
+  highlightedItemId?: Id<'items'>
+  status: PaginationStatus
+  onLoadMore: () => void
+}
+
+interface TodoChecklistProps {
+  todo: Todo
+  isExpanded: boolean
+  onToggleExpanded: () => void
+  onToggleEntry: (entryId: string, completed: boolean) => void
+  canInteract: boolean
+}
+
+// Progress like 2/5 that expands into the entries, each ticked on its own
+function TodoChecklist({
+  todo,
+  isExpanded,
+  onToggleExpanded,
+  onToggleEntry,
+  canInteract,
+}: TodoChecklistProps) {
+  const entries = todo.checklist ?? []
+  if (entries.length === 0) return null
+  const completedCount = entries.filter((entry) => entry.completed).length
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={onToggleExpanded}
+        className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+        aria-expanded={isExpanded}
+      >
+        <ListChecks className="h-3 w-3" />
+        {completedCount}/{entries.length}
+        {isExpanded ? (
+          <ChevronUp className="h-3 w-3" />
+        ) : (
+          <ChevronDown className="h-3 w-3" />
+        )}
+      </button>
+      {isExpanded && (
+        <ul className="basis-full space-y-1 pt-1">
+          {entries.map((entry) => (
+            <li key={entry.id} className="flex items-center gap-2">
+              <Checkbox
+                checked={entry.completed}
+                onCheckedChange={(checked) =>
+                  onToggleEntry(entry.id, checked === true)
+                }
+                disabled={!canInteract}
+                aria-label={`Done: ${entry.label}`}
+              />
+              <span
+                className={`text-sm ${
+                  entry.completed ? 'line-through text-muted-foreground' : ''
+                }`}
+              >
+                {entry.label}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  )
 }
 
 export function TodoList({
   todos,
   canInteract,
-  searchQuery,
-  selectedTags,
-  viewMode,
   onEditTodo,
+  highlightedItemId,
+  status,
+  onLoadMore,
 }: TodoListProps) {
   const updateItem = useMutation(api.items.updateItem)
   const deleteItem = useMutation(api.items.deleteItem)
+  const setEntryCompleted = useMutation(api.items.setChecklistEntryCompleted)
 
   const [showCompleted, setShowCompleted] = useState(false)
   const [deletingId, setDeletingId] = useState<Id<'items'> | null>(null)
+  const [completingTodo, setCompletingTodo] = useState<Todo | null>(null)
+  const [expandedIds, setExpandedIds] = useState<Set<Id<'items'>>>(
+    () => new Set(),
+  )
 
-  // Filter todos
-  const filteredTodos = useMemo(() => {
-    let filtered = [...todos]
-
-    // Filter by date view mode
-    if (viewMode !== 'all') {
-      const now = new Date()
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
-
-      filtered = filtered.filter((todo) => {
-        if (!todo.dateTime) return false
-        const todoDate = new Date(todo.dateTime)
-        const todoDay = new Date(
-          todoDate.getFullYear(),
-          todoDate.getMonth(),
-          todoDate.getDate(),
-        )
+  const incompleteTodos = todos.filter((todo) => !todo.completed)
+  const completedTodos = todos.filter((todo) => todo.completed)
 
-        if (viewMode === 'today') {
-          return todoDay.getTime() === today.getTime()
-        } else if (viewMode === 'week') {
-          const weekFromNow = new Date(
-            today.getTime() + 7 * 24 * 60 * 60 * 1000,
-          )
-          return todoDay >= today && todoDay <= weekFromNow
-        } else if (viewMode === 'month') {
-          const monthFromNow = new Date(
-            today.getFullYear(),
-            today.getMonth() + 1,
-            today.getDate(),
-          )
-          return todoDay >= today && todoDay <= monthFromNow
-        }
-        return true
-      })
-    }
+  // A completed todo opened from search opens the completed section, in the
+  // same render so it can be scrolled to
+  const [revealedId, setRevealedId] = useState<Id<'items'>>()
+  if (
+    highlightedItemId &&
+    highlightedItemId !== revealedId &&
+    completedTodos.some((todo) => todo._id === highlightedItemId)
+  ) {
+    setRevealedId(highlightedItemId)
+    setShowCompleted(true)
+  }
+  const openEntryCount =
+    completingTodo?.checklist?.filter((entry) => !entry.completed).length ?? 0
 
-    // Filter by tags
-    if (selectedTags.length > 0) {
-      filtered = filtered.filter((todo) =>
-        selectedTags.some((tag) => todo.tags?.includes(tag)),
-      )
+  const handleToggle = async (
+    todo: Todo,
+    completed: boolean,
+    completeChecklist?: boolean,
+  ) => {
+    // Open checklist entries get a say before the todo is ticked
+    if (
+      completed &&
+      completeChecklist === undefined &&
+      todo.checklist?.some((entry) => !entry.completed)
+    ) {
+      setCompletingTodo(todo)
+      return
     }
-
-    // Filter by search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase()
-      filtered = filtered.filter((todo) =>
-        [todo.label, ...(todo.tags || [])].some((text) =>
-          text?.toLowerCase().includes(query),
-        ),
-      )
+    setCompletingTodo(null)
+    try {
+      // A repeating todo moves on to its next date instead
+      const { nextDateTime } = await updateItem({
+        itemId: todo._id,
+        completed,
+        completeChecklist,
+      })
+      if (nextDateTime !== undefined) {
+        toast.success(`Done! Next one is ${formatDueDate(nextDateTime)}`)
+      }
+    } catch (error) {
+      toast.error('Failed to update todo')
     }
+  }
 
-    return filtered
-  }, [todos, viewMode, selectedTags, searchQuery])
-
-  const incompleteTodos = filteredTodos.filter((todo) => !todo.completed)
-  const completedTodos = filteredTodos.filter((todo) => todo.completed)
-
-  const handleToggle = async (todoId: Id<'items'>, completed: boolean) => {
+  const handleToggleEntry = async (
+    todoId: Id<'items'>,
+    entryId: string,
+    completed: boolean,
+  ) => {
     try {
-      await updateItem({ itemId: todoId, completed })
+      await setEntryCompleted({ itemId: todoId, entryId, completed })
     } catch (error) {
-      toast.error('Failed to update todo')
+      toast.error('Failed to update checklist')
     }
   }
 
+  const toggleExpanded = (todoId: Id<'items'>) => {
+    setExpandedIds((current) => {
+      const next = new Set(current)
+      if (!next.delete(todoId)) next.add(todoId)
+      return next
+    })
+  }
+
   const handleDelete = async () => {
     if (!deletingId) return
     try {
@@ -156,7 +238,13 @@ export function TodoList({
     })
   }
 
-  if (filteredTodos.length === 0) return null
+  // Tags are matched per page, so a page can come back empty while later
+  // ones match; keep loading until the list is exhausted
+  if (todos.length === 0) {
+    return status === 'CanLoadMore' || status === 'LoadingMore' ? (
+      <LoadMoreTrigger status={status} onLoadMore={onLoadMore} />
+    ) : null
+  }
 
   return (
     <>
@@ -192,12 +280,15 @@ export function TodoList({
           {incompleteTodos.map((todo) => (
             <div
               key={todo._id}
-              className="flex items-start gap-3 p-3 rounded-lg hover:bg-muted/50 transition-colors group"
+              id={`item-${todo._id}`}
+              className={`flex items-start gap-3 p-3 rounded-lg hover:bg-muted/50 transition-colors group ${
+                todo._id === highlightedItemId ? 'ring-2 ring-primary' : ''
+              }`}
             >
               <Checkbox
                 checked={false}
                 onCheckedChange={(checked) =>
-                  handleToggle(todo._id, checked as boolean)
+                  handleToggle(todo, checked as boolean)
                 }
                 disabled={!canInteract}
                 className="mt-1"
@@ -211,6 +302,21 @@ export function TodoList({
                       {formatDate(todo.dateTime)}
                     </div>
                   )}
+                  {todo.recurrence && (
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Repeat className="h-3 w-3" />
+                      {describeRecurrence(todo.recurrence)}
+                    </div>
+                  )}
+                  <TodoChecklist
+                    todo={todo}
+                    isExpanded={expandedIds.has(todo._id)}
+                    onToggleExpanded={() => toggleExpanded(todo._id)}
+                    onToggleEntry={(entryId, completed) =>
+                      handleToggleEntry(todo._id, entryId, completed)
+                    }
+                    canInteract={canInteract}
+                  />
                   {todo.tags?.map((tag) => (
                     <Badge key={tag} variant="secondary" className="text-xs">
                       #{tag}
@@ -246,12 +352,15 @@ export function TodoList({
             completedTodos.map((todo) => (
               <div
                 key={todo._id}
-                className="flex items-start gap-3 p-3 rounded-lg hover:bg-muted/50 transition-colors group opacity-60"
+                id={`item-${todo._id}`}
+                className={`flex items-start gap-3 p-3 rounded-lg hover:bg-muted/50 transition-colors group opacity-60 ${
+                  todo._id === highlightedItemId ? 'ring-2 ring-primary' : ''
+                }`}
               >
                 <Checkbox
                   checked={true}
                   onCheckedChange={(checked) =>
-                    handleToggle(todo._id, checked as boolean)
+                    handleToggle(todo, checked as boolean)
                   }
                   disabled={!canInteract}
                   className="mt-1"
@@ -267,6 +376,15 @@ export function TodoList({
                         {formatDate(todo.dateTime)}
                       </div>
                     )}
+                    <TodoChecklist
+                      todo={todo}
+                      isExpanded={expandedIds.has(todo._id)}
+                      onToggleExpanded={() => toggleExpanded(todo._id)}
+                      onToggleEntry={(entryId, completed) =>
+                        handleToggleEntry(todo._id, entryId, completed)
+                      }
+                      canInteract={canInteract}
+                    />
                     {todo.tags?.map((tag) => (
                       <Badge key={tag} variant="outline" className="text-xs">
                         #{tag}
@@ -296,9 +414,45 @@ export function TodoList({
                 )}
               </div>
             ))}
+
+          <LoadMoreTrigger status={status} onLoadMore={onLoadMore} />
         </div>
       </div>
 
+      <AlertDialog
+        open={completingTodo !== null}
+        onOpenChange={(open) => !open && setCompletingTodo(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Complete the checklist too?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {openEntryCount === 1
+                ? '1 checklist entry is still open.'
+                : `${openEntryCount} checklist entries are still open.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                completingTodo && handleToggle(completingTodo, true, false)
+              }
+              className="bg-secondary text-secondary-foreground hover:bg-secondary/80"
+            >
+              Only the todo
+            </AlertDialogAction>
+            <AlertDialogAction
+              onClick={() =>
+                completingTodo && handleToggle(completingTodo, true, true)
+              }
+            >
+              Complete all
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       <AlertDialog
         open={deletingId !== null}
         onOpenChange={(open) => !open && setDeletingId(null)}
@@ -0,0 +1,126 @@
+// src/components/UploadQueue.tsx
+import { AlertCircle, Loader2, RotateCw, X } from 'lucide-react'
+import { formatBytes } from '@@/convex/format'
+import type { UploadEntry } from '@/lib/uploadManager'
+import { Button } from '@/components/ui/button'
+
+interface UploadQueueProps {
+  uploads: Array<UploadEntry>
+  onCancel: (id: string) => void
+  onCancelAll: () => void
+  onRetry: (id: string) => void
+  onDismiss: (id: string) => void
+}
+
+const STATUS_LABELS = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  retrying: 'Retrying…',
+  saving: 'Saving',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+}
+
+function isCancellable(entry: UploadEntry) {
+  return (
+    entry.status === 'queued' ||
+    entry.status === 'uploading' ||
+    entry.status === 'retrying'
+  )
+}
+
+export function UploadQueue({
+  uploads,
+  onCancel,
+  onCancelAll,
+  onRetry,
+  onDismiss,
+}: UploadQueueProps) {
+  if (uploads.length === 0) return null
+
+  const running = uploads.filter(isCancellable).length
+
+  return (
+    <div className="mx-3 mb-2 rounded-lg border bg-card p-2 space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {running > 0
+            ? `Uploading ${running} file${running === 1 ? '' : 's'}`
+            : 'Uploads'}
+        </span>
+        {running > 1 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={onCancelAll}
+          >
+            Cancel all
+          </Button>
+        )}
+      </div>
+
+      {uploads.map((entry) => (
+        <div key={entry.id} className="space-y-1">
+          <div className="flex items-center gap-2 text-xs">
+            {entry.status === 'failed' ? (
+              <AlertCircle className="h-3 w-3 shrink-0 text-destructive" />
+            ) : (
+              <Loader2 className="h-3 w-3 shrink-0 animate-spin text-muted-foreground" />
+            )}
+            <span className="truncate flex-1" title={entry.file.name}>
+              {entry.file.name}
+            </span>
+            <span className="shrink-0 text-muted-foreground">
+              {entry.status === 'uploading'
+                ? `${Math.round(entry.progress * 100)}% of ${formatBytes(entry.file.size)}`
+                : STATUS_LABELS[entry.status]}
+            </span>
+            {entry.status === 'failed' ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onRetry(entry.id)}
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Retry"
+                >
+                  <RotateCw className="h-3 w-3" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDismiss(entry.id)}
+                  className="text-muted-foreground hover:text-destructive"
+                  title="Dismiss"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </>
+            ) : (
+              isCancellable(entry) && (
+                <button
+                  type="button"
+                  onClick={() => onCancel(entry.id)}
+                  className="text-muted-foreground hover:text-destructive"
+                  title="Cancel"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )
+            )}
+          </div>
+          {entry.status === 'failed' ? (
+            <p className="text-xs text-destructive">{entry.error}</p>
+          ) : (
+            <div className="h-1 w-full rounded-full bg-muted overflow-hidden">
+              <div
+                className="h-full rounded-full bg-primary transition-all"
+                style={{ width: `${entry.progress * 100}%` }}
+              />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+// src/components/UsageBar.tsx
+import { formatBytes } from '@@/convex/format'
+
+interface UsageBarProps {
+  used: number
+  quota: number
+  label?: string
+  title?: string
+  className?: string
+}
+
+export function UsageBar({
+  used,
+  quota,
+  label,
+  title,
+  className,
+}: UsageBarProps) {
+  const percent = Math.min(100, (used / quota) * 100)
+
+  return (
+    <div className={`space-y-1 ${className || ''}`} title={title}>
+      <div className="h-1.5 w-full rounded-full bg-muted overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${
+            percent >= 90
+              ? 'bg-destructive'
+              : percent >= 75
+                ? 'bg-yellow-500'
+                : 'bg-primary'
+          }`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {label && `${label}: `}
+        {formatBytes(used)} of {formatBytes(quota)}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { useMemo } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '@@/convex/_generated/api'
+import type { Id } from '@@/convex/_generated/dataModel'
+
+// Chests /move can add to: any other chest the user can edit
+export function useMoveTargets(chestId: Id<'chests'>) {
+  const myChests = useQuery(api.chests.listMyChests)
+
+  return useMemo(() => {
+    if (!myChests) return []
+    return [...myChests.owned, ...myChests.shared].filter(
+      (c): c is NonNullable<typeof c> =>
+        !!c && c.role !== 'viewer' && c._id !== chestId,
+    )
+  }, [myChests, chestId])
+}
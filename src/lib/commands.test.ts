@@ -0,0 +1,253 @@
+import { describe, expect, it } from 'vitest'
+import {
+  findChestByName,
+  formatChestArgument,
+  getCommandQuery,
+  getCommandSuggestions,
+  parseMessage,
+} from './commands'
+
+// Wednesday 21 October 2026, 10:00 UTC
+const options = {
+  now: Date.parse('2026-10-21T10:00:00Z'),
+  locale: 'en-GB',
+  timeZone: 'UTC',
+}
+
+const parse = (input: string) => parseMessage(input, options)
+
+describe('parseMessage', () => {
+  describe('type commands', () => {
+    it.each([
+      ['/todo Call the bank', 'todo', 'Call the bank'],
+      ['/note Meeting notes', 'note', 'Meeting notes'],
+      ['/link https://example.com', 'link', 'https://example.com'],
+      ['Call the bank /todo', 'todo', 'Call the bank'],
+      ['/TODO Shout', 'todo', 'Shout'],
+      ['/todo /todo Once is enough', 'todo', 'Once is enough'],
+    ])('reads "%s"', (input, type, text) => {
+      const result = parse(input)
+      expect(result.type).toBe(type)
+      expect(result.text).toBe(text)
+      expect(result.errors).toEqual([])
+    })
+
+    it('leaves the type unset without a command', () => {
+      expect(parse('Just some text').type).toBeUndefined()
+    })
+
+    it('refuses more than one type', () => {
+      const result = parse('/todo /note Which one?')
+      expect(result.errors).toEqual(['Use only one of /todo, /note and /link.'])
+      expect(result.text).toBe('Which one?')
+    })
+  })
+
+  describe('/due', () => {
+    it.each([
+      ['/due tomorrow Call mum', '2026-10-22T09:00Z', 'Call mum'],
+      ['Call mum /due tomorrow', '2026-10-22T09:00Z', 'Call mum'],
+      ['/due next friday at 5pm Call mum', '2026-10-30T17:00Z', 'Call mum'],
+      ['/due "2026-12-01 14:00" Dentist', '2026-12-01T14:00Z', 'Dentist'],
+      ['/due 3/4 Taxes', '2027-04-03T09:00Z', 'Taxes'],
+    ])('reads "%s"', (input, due, text) => {
+      const result = parse(input)
+      expect(result.dueDate).toBe(Date.parse(due))
+      expect(result.text).toBe(text)
+      expect(result.errors).toEqual([])
+    })
+
+    it('keeps a repeat rule', () => {
+      const result = parse('/todo Standup /due every weekday 9:30am')
+      expect(result.recurrence).toBe('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR')
+      expect(result.dueDate).toBe(Date.parse('2026-10-21T09:30:00Z'))
+      expect(result.text).toBe('Standup')
+    })
+
+    it.each([
+      '/due',
+      '/due someday Call mum',
+      '/due "not a date" Call mum',
+      '/due #tag',
+    ])('reports a missing or unreadable date in "%s"', (input) => {
+      const result = parse(input)
+      expect(result.dueDate).toBeUndefined()
+      expect(result.errors).toEqual([
+        'Couldn\'t read the date after /due. Try "tomorrow" or "2025-06-01 14:00".',
+      ])
+    })
+
+    it('does not read past another command', () => {
+      const result = parse('/due tomorrow /tag home')
+      expect(result.dueDate).toBe(Date.parse('2026-10-22T09:00:00Z'))
+      expect(result.tags).toEqual(['home'])
+    })
+  })
+
+  describe('/tag and #tags', () => {
+    it('collects tags from both forms, once each', () => {
+      const result = parse('Buy milk /tag errands #home #errands')
+      expect(result.tags).toEqual(['errands', 'home'])
+      expect(result.text).toBe('Buy milk')
+    })
+
+    it('drops a leading # from the argument', () => {
+      expect(parse('/tag #work Report').tags).toEqual(['work'])
+    })
+
+    it('takes a quoted tag with spaces', () => {
+      const result = parse('/tag "long term" Plant trees')
+      expect(result.tags).toEqual(['long term'])
+      expect(result.text).toBe('Plant trees')
+    })
+
+    it.each(['/tag', '/tag ""', '/tag "   "'])(
+      'reports a missing tag in "%s"',
+      (input) => {
+        expect(parse(input).errors).toEqual(['Add a tag name after /tag.'])
+      },
+    )
+
+    it('ignores # inside words', () => {
+      const result = parse('C# and issue#12')
+      expect(result.tags).toEqual([])
+      expect(result.text).toBe('C# and issue#12')
+    })
+  })
+
+  describe('/move', () => {
+    it.each([
+      ['/move Work Finish slides', 'Work', 'Finish slides'],
+      ['/move "Side projects" Sketch logo', 'Side projects', 'Sketch logo'],
+      ['Sketch logo /move " Side projects "', 'Side projects', 'Sketch logo'],
+    ])('reads "%s"', (input, moveTo, text) => {
+      const result = parse(input)
+      expect(result.moveTo).toBe(moveTo)
+      expect(result.text).toBe(text)
+    })
+
+    it('skips commands inside the quoted name', () => {
+      const result = parse('/move "Notes /todo" Hello')
+      expect(result.moveTo).toBe('Notes /todo')
+      expect(result.type).toBeUndefined()
+      expect(result.text).toBe('Hello')
+    })
+
+    it.each(['/move', '/move ""'])(
+      'reports a missing chest in "%s"',
+      (input) => {
+        expect(parse(input).errors).toEqual(['Add a chest name after /move.'])
+      },
+    )
+  })
+
+  describe('text that is not a command', () => {
+    it.each([
+      '/unknown stays put',
+      '/todos stays put',
+      'see https://example.com/todo',
+      'either and/or',
+      'half is 1/2',
+      '/ alone',
+      'path/to/note',
+    ])('keeps "%s" as text', (input) => {
+      const result = parse(input)
+      expect(result.type).toBeUndefined()
+      expect(result.errors).toEqual([])
+      expect(result.text).toBe(input)
+    })
+
+    it('only strips the real command next to an unknown one', () => {
+      const result = parse("/todon't /todo forget")
+      expect(result.type).toBe('todo')
+      expect(result.text).toBe("/todon't forget")
+    })
+
+    it('keeps newlines for notes', () => {
+      expect(parse('/note line one\n  line   two').text).toBe(
+        'line one\nline two',
+      )
+    })
+  })
+
+  describe('natural dates', () => {
+    it('finds a date in a todo', () => {
+      const result = parse('/todo Call mum tomorrow 5pm')
+      expect(result.dueDate).toBe(Date.parse('2026-10-22T17:00:00Z'))
+      expect(result.text).toBe('Call mum')
+    })
+
+    it('leaves dates in notes alone unless asked', () => {
+      const note = parse('/note Meet tomorrow')
+      expect(note.dueDate).toBeUndefined()
+      expect(note.text).toBe('Meet tomorrow')
+
+      const asked = parseMessage('Meet tomorrow', {
+        ...options,
+        naturalDates: true,
+      })
+      expect(asked.dueDate).toBe(Date.parse('2026-10-22T09:00:00Z'))
+      expect(asked.text).toBe('Meet')
+    })
+
+    it('lets /due win over a date in the text', () => {
+      const result = parse('/todo Plan friday party /due tomorrow')
+      expect(result.dueDate).toBe(Date.parse('2026-10-22T09:00:00Z'))
+      expect(result.text).toBe('Plan friday party')
+    })
+  })
+})
+
+describe('getCommandQuery', () => {
+  it.each([
+    ['/', { kind: 'command', query: '', start: 0 }],
+    ['/to', { kind: 'command', query: 'to', start: 0 }],
+    ['Call mum /D', { kind: 'command', query: 'd', start: 9 }],
+    ['/move ', { kind: 'chest', query: '', start: 6 }],
+    ['/move Wo', { kind: 'chest', query: 'Wo', start: 6 }],
+    // The opening quote is replaced too
+    ['/move "Side pro', { kind: 'chest', query: 'Side pro', start: 6 }],
+  ])('completes "%s"', (input, expected) => {
+    expect(getCommandQuery(input, input.length)).toEqual(expected)
+  })
+
+  it.each(['', 'plain text', 'and/or', '/todo ', '/move Work then'])(
+    'offers nothing for "%s"',
+    (input) => {
+      expect(getCommandQuery(input, input.length)).toBeNull()
+    },
+  )
+
+  it('only looks before the caret', () => {
+    expect(getCommandQuery('/to do', 3)).toEqual({
+      kind: 'command',
+      query: 'to',
+      start: 0,
+    })
+  })
+})
+
+describe('getCommandSuggestions', () => {
+  it('lists commands starting with the query', () => {
+    expect(getCommandSuggestions('t').map((command) => command.name)).toEqual([
+      'todo',
+      'tag',
+    ])
+    expect(getCommandSuggestions('')).toHaveLength(6)
+    expect(getCommandSuggestions('x')).toEqual([])
+  })
+})
+
+describe('chest arguments', () => {
+  it('quotes names with spaces', () => {
+    expect(formatChestArgument('Work')).toBe('Work')
+    expect(formatChestArgument('Side projects')).toBe('"Side projects"')
+  })
+
+  it('matches chest names loosely', () => {
+    const chests = [{ name: 'Work' }, { name: ' Side Projects ' }]
+    expect(findChestByName(chests, 'work')).toBe(chests[0])
+    expect(findChestByName(chests, 'side projects')).toBe(chests[1])
+    expect(findChestByName(chests, 'home')).toBeUndefined()
+  })
+})
@@ -0,0 +1,222 @@
+// Slash commands and #tags typed into ChatInput and QuickAddTodo, e.g.
+// "/todo Call the bank /due tomorrow #admin". Commands may appear anywhere in
+// the message; what's left once they and the tags are removed is the text.
+import type { DueDateOptions } from '@/lib/dueDates'
+import { findDueDate, parseDueDate } from '@/lib/dueDates'
+
+export type CommandItemType = 'todo' | 'note' | 'link'
+
+export interface SlashCommand {
+  name: string
+  args?: string
+  description: string
+}
+
+export const SLASH_COMMANDS: Array<SlashCommand> = [
+  { name: 'todo', description: 'Add as a todo' },
+  { name: 'note', description: 'Add as a note, even with links in it' },
+  { name: 'link', description: 'Add every link in the message' },
+  { name: 'due', args: '<date>', description: 'Set the date, e.g. tomorrow' },
+  { name: 'tag', args: '<tag>', description: 'Add a tag' },
+  { name: 'move', args: '<chest>', description: 'Add to another chest' },
+]
+
+export interface ParseOptions extends DueDateOptions {
+  // Look for a date in the text itself ("call mum tomorrow 9am"), not just
+  // after /due. Todos always do; notes and links would lose words to it.
+  naturalDates?: boolean
+}
+
+export interface ParsedMessage {
+  type?: CommandItemType
+  dueDate?: number
+  // Repeat rule for todos, from "every monday" and the like
+  recurrence?: string
+  tags: Array<string>
+  moveTo?: string
+  text: string
+  errors: Array<string>
+}
+
+const COMMAND_NAMES = new Set(SLASH_COMMANDS.map((command) => command.name))
+const COMMAND_PATTERN = /(^|\s)\/([a-z]+)(?=\s|$)/gi
+const TAG_PATTERN = /(^|\s)#(\w+)/g
+// Dates like "next friday at 5pm" run to a few words at most
+const MAX_DATE_WORDS = 5
+
+// An argument is a "quoted string" or one word, read after leading spaces
+function readArgument(rest: string) {
+  const match = rest.match(/^[ \t]+(?:"([^"\n]*)"|([^\s"]+))/)
+  if (!match) return null
+  return {
+    value: (match[1] as string | undefined) ?? match[2],
+    length: match[0].length,
+  }
+}
+
+// /due takes as many words as still read as a date, so the text after it
+// isn't swallowed: "/due tomorrow call mum" is due tomorrow
+function readDueArgument(rest: string, options: DueDateOptions) {
+  const quoted = rest.match(/^[ \t]+"([^"\n]*)"/)
+  if (quoted) {
+    const match = parseDueDate(quoted[1], options)
+    return match && { match, length: quoted[0].length }
+  }
+
+  const words = Array.from(rest.matchAll(/[ \t]+([^\s/#]\S*)/gy))
+  for (let count = Math.min(words.length, MAX_DATE_WORDS); count > 0; count--) {
+    const match = parseDueDate(
+      words
+        .slice(0, count)
+        .map((word) => word[1])
+        .join(' '),
+      options,
+    )
+    if (match) {
+      const last = words[count - 1]
+      return { match, length: last.index + last[0].length }
+    }
+  }
+  return null
+}
+
+export function parseMessage(
+  input: string,
+  options: ParseOptions = {},
+): ParsedMessage {
+  const result: ParsedMessage = { tags: [], text: '', errors: [] }
+  const removed: Array<[number, number]> = []
+  const types = new Set<CommandItemType>()
+
+  for (const match of input.matchAll(COMMAND_PATTERN)) {
+    const name = match[2].toLowerCase()
+    if (!COMMAND_NAMES.has(name)) continue
+
+    const start = match.index + match[1].length
+    const end = start + name.length + 1
+    // Skip commands inside an argument already consumed, like a quoted name
+    if (removed.some(([from, to]) => start >= from && start < to)) continue
+
+    const rest = input.slice(end)
+    let length = 0
+
+    if (name === 'todo' || name === 'note' || name === 'link') {
+      types.add(name)
+    } else if (name === 'due') {
+      const due = readDueArgument(rest, options)
+      if (due) {
+        result.dueDate = due.match.timestamp
+        result.recurrence = due.match.recurrence
+        length = due.length
+      } else {
+        result.errors.push(
+          'Couldn\'t read the date after /due. Try "tomorrow" or "2025-06-01 14:00".',
+        )
+      }
+    } else {
+      const argument = readArgument(rest)
+      if (!argument?.value.trim()) {
+        result.errors.push(
+          name === 'tag'
+            ? 'Add a tag name after /tag.'
+            : 'Add a chest name after /move.',
+        )
+      } else if (name === 'tag') {
+        result.tags.push(argument.value.replace(/^#/, ''))
+        length = argument.length
+      } else {
+        result.moveTo = argument.value.trim()
+        length = argument.length
+      }
+    }
+    removed.push([start, end + length])
+  }
+
+  if (types.size > 1) {
+    result.errors.push('Use only one of /todo, /note and /link.')
+  }
+  result.type = types.values().next().value
+
+  let text = ''
+  let position = 0
+  for (const [from, to] of removed.sort((a, b) => a[0] - b[0])) {
+    text += input.slice(position, from)
+    position = to
+  }
+  text += input.slice(position)
+
+  text = text.replace(TAG_PATTERN, (_, space: string, tag: string) => {
+    result.tags.push(tag)
+    return space
+  })
+  result.tags = [...new Set(result.tags)]
+
+  if (
+    result.dueDate === undefined &&
+    (options.naturalDates || result.type === 'todo')
+  ) {
+    const due = findDueDate(text, options)
+    if (due) {
+      result.dueDate = due.timestamp
+      result.recurrence = due.recurrence
+      text = text.slice(0, due.index) + text.slice(due.index + due.length)
+    }
+  }
+
+  // Removing commands leaves runs of spaces behind; newlines stay for notes
+  result.text = text
+    .split('\n')
+    .map((line) => line.replace(/[ \t]{2,}/g, ' ').trim())
+    .join('\n')
+    .trim()
+  return result
+}
+
+export type CommandQuery =
+  | { kind: 'command'; query: string; start: number }
+  | { kind: 'chest'; query: string; start: number }
+
+// What the word being typed at the caret could complete to: a command name
+// after "/", or a chest name after "/move "
+export function getCommandQuery(
+  input: string,
+  caret: number,
+): CommandQuery | null {
+  const before = input.slice(0, caret)
+
+  const chest = before.match(/(?:^|\s)\/move[ \t]+("?)([^"\n]*)$/i)
+  if (chest && (chest[1] || !/\s/.test(chest[2]))) {
+    return {
+      kind: 'chest',
+      query: chest[2],
+      start: caret - chest[1].length - chest[2].length,
+    }
+  }
+
+  const command = before.match(/(?:^|\s)\/([a-z]*)$/i)
+  if (command) {
+    return {
+      kind: 'command',
+      query: command[1].toLowerCase(),
+      start: caret - command[1].length - 1,
+    }
+  }
+  return null
+}
+
+export function getCommandSuggestions(query: string) {
+  return SLASH_COMMANDS.filter((command) => command.name.startsWith(query))
+}
+
+// Chest names with spaces need quotes to be read back as one argument
+export function formatChestArgument(name: string) {
+  return /\s/.test(name) ? `"${name}"` : name
+}
+
+export function findChestByName<T extends { name: string }>(
+  chests: Array<T>,
+  name: string,
+) {
+  const wanted = name.trim().toLowerCase()
+  return chests.find((chest) => chest.name.trim().toLowerCase() === wanted)
+}
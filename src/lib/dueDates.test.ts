@@ -0,0 +1,313 @@
+import { describe, expect, it } from 'vitest'
+import { findDueDate, parseDueDate } from './dueDates'
+import type { DueDateOptions } from './dueDates'
+
+// Wednesday 21 October 2026, 10:00 UTC
+const NOW = Date.parse('2026-10-21T10:00:00Z')
+
+interface Case {
+  text: string
+  expected: string | null
+  hasTime?: boolean
+  recurrence?: string
+}
+
+function expectCases(cases: Array<Case>, options: DueDateOptions) {
+  it.each(cases)('$text', ({ text, expected, hasTime, recurrence }) => {
+    const match = findDueDate(text, { now: NOW, ...options })
+    if (expected === null) {
+      expect(match).toBeNull()
+      return
+    }
+    expect(match).not.toBeNull()
+    expect(new Date(match!.timestamp).toISOString()).toBe(
+      new Date(expected).toISOString(),
+    )
+    if (hasTime !== undefined) expect(match!.hasTime).toBe(hasTime)
+    expect(match!.recurrence).toBe(recurrence)
+  })
+}
+
+describe('relative words', () => {
+  expectCases(
+    [
+      { text: 'today', expected: '2026-10-21T09:00Z', hasTime: false },
+      { text: 'tonight', expected: '2026-10-21T20:00Z', hasTime: true },
+      { text: 'tomorrow', expected: '2026-10-22T09:00Z', hasTime: false },
+      { text: 'tmrw 5pm', expected: '2026-10-22T17:00Z', hasTime: true },
+      { text: 'day after tomorrow', expected: '2026-10-23T09:00Z' },
+      { text: 'in 3 days', expected: '2026-10-24T09:00Z' },
+      { text: 'in a week', expected: '2026-10-28T09:00Z' },
+      { text: 'in 1 month', expected: '2026-11-21T09:00Z' },
+      { text: 'in 2 years', expected: '2028-10-21T09:00Z' },
+      { text: 'in 2 hours', expected: '2026-10-21T12:00Z', hasTime: true },
+      { text: 'in 30 mins', expected: '2026-10-21T10:30Z', hasTime: true },
+      { text: 'next week', expected: '2026-10-26T09:00Z' },
+      { text: 'next month', expected: '2026-11-01T09:00Z' },
+      { text: 'next year', expected: '2027-01-01T09:00Z' },
+      { text: 'at 14:00', expected: '2026-10-21T14:00Z', hasTime: true },
+      // Already passed today, so tomorrow
+      { text: 'at 8:30', expected: '2026-10-22T08:30Z', hasTime: true },
+      { text: '3pm', expected: '2026-10-21T15:00Z', hasTime: true },
+      { text: 'noon', expected: '2026-10-21T12:00Z', hasTime: true },
+      // A bare 24-hour time needs "at"
+      { text: 'read 10:30', expected: null },
+      {
+        text: 'every day',
+        expected: '2026-10-21T09:00Z',
+        recurrence: 'FREQ=DAILY',
+      },
+      {
+        text: 'every other week',
+        expected: '2026-10-21T09:00Z',
+        recurrence: 'FREQ=WEEKLY;INTERVAL=2',
+      },
+      {
+        text: 'every 3 months',
+        expected: '2026-10-21T09:00Z',
+        recurrence: 'FREQ=MONTHLY;INTERVAL=3',
+      },
+      {
+        text: 'every year',
+        expected: '2026-10-21T09:00Z',
+        recurrence: 'FREQ=YEARLY',
+      },
+      { text: 'every 0 days', expected: null },
+      { text: 'nothing to see here', expected: null },
+    ],
+    { locale: 'en-GB', timeZone: 'UTC' },
+  )
+})
+
+describe('weekdays', () => {
+  expectCases(
+    [
+      { text: 'friday', expected: '2026-10-23T09:00Z' },
+      { text: 'this friday', expected: '2026-10-23T09:00Z' },
+      { text: 'on fri', expected: '2026-10-23T09:00Z' },
+      // Short names are words too; alone they don't count
+      { text: 'fri', expected: null },
+      { text: 'money', expected: null },
+      // Today's weekday means next week's
+      { text: 'wednesday', expected: '2026-10-28T09:00Z' },
+      // Friday is still this week, so "next" skips it; Monday is already next week
+      { text: 'next friday', expected: '2026-10-30T09:00Z' },
+      { text: 'next monday', expected: '2026-10-26T09:00Z' },
+      { text: 'friday at 5pm', expected: '2026-10-23T17:00Z', hasTime: true },
+      { text: '5pm friday', expected: '2026-10-23T17:00Z', hasTime: true },
+      { text: 'friday @ 17:30', expected: '2026-10-23T17:30Z', hasTime: true },
+      {
+        text: 'every monday',
+        expected: '2026-10-26T09:00Z',
+        recurrence: 'FREQ=WEEKLY;BYDAY=MO',
+      },
+      {
+        text: 'every weekday',
+        expected: '2026-10-21T09:00Z',
+        recurrence: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+      },
+    ],
+    { locale: 'en-GB', timeZone: 'UTC' },
+  )
+
+  it('starts "every weekday" on Monday at a weekend', () => {
+    const saturday = Date.parse('2026-10-24T10:00:00Z')
+    const match = findDueDate('every weekday', {
+      now: saturday,
+      timeZone: 'UTC',
+    })
+    expect(match?.timestamp).toBe(Date.parse('2026-10-26T09:00:00Z'))
+  })
+})
+
+describe('explicit dates', () => {
+  describe('en-GB', () => {
+    expectCases(
+      [
+        { text: '2026-12-01', expected: '2026-12-01T09:00Z' },
+        {
+          text: '2026-12-01 14:00',
+          expected: '2026-12-01T14:00Z',
+          hasTime: true,
+        },
+        // Day first; a date that has passed this year means next year's
+        { text: '3/4', expected: '2027-04-03T09:00Z' },
+        { text: '25/12', expected: '2026-12-25T09:00Z' },
+        { text: '25/12/27', expected: '2027-12-25T09:00Z' },
+        { text: '14 march at 5pm', expected: '2027-03-14T17:00Z' },
+        { text: '1st of december', expected: '2026-12-01T09:00Z' },
+        { text: 'march 14th, 2028', expected: '2028-03-14T09:00Z' },
+        { text: 'dec 31 2026', expected: '2026-12-31T09:00Z' },
+        { text: '31/2', expected: null },
+        { text: '2026-02-30', expected: null },
+      ],
+      { locale: 'en-GB', timeZone: 'UTC' },
+    )
+  })
+
+  describe('en-US', () => {
+    expectCases(
+      [
+        // Month first
+        { text: '3/4', expected: '2027-03-04T09:00Z' },
+        { text: '12/25/26', expected: '2026-12-25T09:00Z' },
+        { text: '25/12', expected: null },
+      ],
+      { locale: 'en-US', timeZone: 'UTC' },
+    )
+  })
+
+  describe('de-DE', () => {
+    expectCases(
+      [
+        { text: '3.4.2027', expected: '2027-04-03T09:00Z' },
+        { text: '24.12.26', expected: '2026-12-24T09:00Z' },
+        // Without a year it's more likely a number
+        { text: '1.5', expected: null },
+        { text: 'freitag', expected: '2026-10-23T09:00Z' },
+        { text: '14 märz', expected: '2027-03-14T09:00Z' },
+        { text: 'dezember 1', expected: '2026-12-01T09:00Z' },
+        // English names keep working
+        { text: 'friday', expected: '2026-10-23T09:00Z' },
+        // Relative words are English-only
+        { text: 'morgen', expected: null },
+      ],
+      { locale: 'de-DE', timeZone: 'UTC' },
+    )
+  })
+
+  describe('fr-FR', () => {
+    expectCases(
+      [
+        { text: 'vendredi', expected: '2026-10-23T09:00Z' },
+        { text: '3 avril', expected: '2027-04-03T09:00Z' },
+      ],
+      { locale: 'fr-FR', timeZone: 'UTC' },
+    )
+  })
+})
+
+describe('time zones', () => {
+  // 06:00 in New York, still the 21st
+  describe('America/New_York', () => {
+    expectCases(
+      [
+        { text: 'today', expected: '2026-10-21T09:00-04:00' },
+        { text: 'tomorrow 9am', expected: '2026-10-22T09:00-04:00' },
+        { text: 'at 7:00', expected: '2026-10-21T07:00-04:00' },
+      ],
+      { locale: 'en-US', timeZone: 'America/New_York' },
+    )
+  })
+
+  // 23:00 in Auckland, the 21st there too
+  describe('Pacific/Auckland', () => {
+    expectCases(
+      [
+        { text: 'today', expected: '2026-10-21T09:00+13:00' },
+        { text: 'tomorrow', expected: '2026-10-22T09:00+13:00' },
+        // 10pm has passed there
+        { text: 'at 10pm', expected: '2026-10-22T22:00+13:00' },
+      ],
+      { locale: 'en-NZ', timeZone: 'Pacific/Auckland' },
+    )
+  })
+
+  // 19:00 in Tokyo
+  describe('Asia/Tokyo', () => {
+    expectCases(
+      [
+        { text: 'tonight', expected: '2026-10-21T20:00+09:00' },
+        { text: 'friday 8am', expected: '2026-10-23T08:00+09:00' },
+      ],
+      { locale: 'ja-JP', timeZone: 'Asia/Tokyo' },
+    )
+  })
+})
+
+describe('DST boundaries', () => {
+  // Berlin leaves summer time on 25 October 2026
+  describe('Europe/Berlin in autumn', () => {
+    expectCases(
+      [
+        { text: 'friday 9am', expected: '2026-10-23T09:00+02:00' },
+        { text: 'sunday 9am', expected: '2026-10-25T09:00+01:00' },
+        { text: 'next week', expected: '2026-10-26T09:00+01:00' },
+        { text: 'in 7 days', expected: '2026-10-28T09:00+01:00' },
+        // 02:30 happens twice; the later, standard-time one is used
+        { text: '25 october 2:30am', expected: '2026-10-25T02:30+01:00' },
+      ],
+      { locale: 'de-DE', timeZone: 'Europe/Berlin' },
+    )
+  })
+
+  // New York leaves daylight time on 1 November 2026
+  describe('America/New_York in autumn', () => {
+    expectCases(
+      [
+        { text: 'october 31 9am', expected: '2026-10-31T09:00-04:00' },
+        { text: 'november 1 9am', expected: '2026-11-01T09:00-05:00' },
+      ],
+      { locale: 'en-US', timeZone: 'America/New_York' },
+    )
+  })
+
+  it('keeps the wall-clock time across the spring change', () => {
+    const options = {
+      now: Date.parse('2026-03-27T12:00:00Z'),
+      locale: 'en-GB',
+      timeZone: 'Europe/Berlin',
+    }
+    expect(findDueDate('sunday 9am', options)?.timestamp).toBe(
+      Date.parse('2026-03-29T09:00:00+02:00'),
+    )
+    // 02:30 doesn't exist that night; it moves forward an hour
+    expect(findDueDate('29 march 2:30am', options)?.timestamp).toBe(
+      Date.parse('2026-03-29T03:30:00+02:00'),
+    )
+  })
+
+  it('counts "in 1 hour" in real time across the change', () => {
+    const now = Date.parse('2026-10-25T00:30:00Z')
+    expect(
+      findDueDate('in 1 hour', { now, timeZone: 'Europe/Berlin' })?.timestamp,
+    ).toBe(now + 60 * 60 * 1000)
+  })
+})
+
+describe('match position', () => {
+  const options = { now: NOW, locale: 'en-GB', timeZone: 'UTC' }
+
+  it.each([
+    ['call mum tomorrow at 5pm', 'tomorrow at 5pm'],
+    ['submit report due friday', 'due friday'],
+    ['pay rent by 1st of november', 'by 1st of november'],
+    ['at 5pm on friday pick up keys', 'at 5pm on friday'],
+    ['water plants every monday', 'every monday'],
+  ])('finds the phrase in "%s"', (text, phrase) => {
+    const match = findDueDate(text, options)
+    expect(match).not.toBeNull()
+    expect(text.slice(match!.index, match!.index + match!.length)).toBe(phrase)
+  })
+
+  it('prefers the earliest phrase', () => {
+    const match = findDueDate('friday or maybe tomorrow', options)
+    expect(match?.timestamp).toBe(Date.parse('2026-10-23T09:00:00Z'))
+  })
+})
+
+describe('parseDueDate', () => {
+  const options = { now: NOW, locale: 'en-GB', timeZone: 'UTC' }
+
+  it('accepts text that is only a date', () => {
+    expect(parseDueDate('  next friday 3pm ', options)?.timestamp).toBe(
+      Date.parse('2026-10-30T15:00:00Z'),
+    )
+  })
+
+  it('rejects text with anything else in it', () => {
+    expect(parseDueDate('buy milk tomorrow', options)).toBeNull()
+    expect(parseDueDate('tomorrow-ish', options)).toBeNull()
+    expect(parseDueDate('', options)).toBeNull()
+  })
+})
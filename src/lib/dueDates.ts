@@ -0,0 +1,527 @@
+// Natural-language due dates, parsed offline: "tomorrow 9am", "next friday",
+// "in 3 days", "every monday", "14 march at 5pm", "2025-06-01 14:00".
+// Times are wall-clock times in the given time zone. Relative words are only
+// understood in English, whatever the locale; weekday and month names also
+// match the given locale, and the locale decides whether 3/4 is the 3rd of
+// April or March 4th.
+import {
+  addDays,
+  addMonths,
+  compareDates,
+  getWeekday,
+  getZonedParts,
+  isValidDate,
+  toTimestamp,
+} from '@@/convex/timeZones'
+import { WEEKDAY_CODES } from '@@/convex/recurrence'
+import type { CalendarDate, WallTime } from '@@/convex/timeZones'
+
+export interface DueDateOptions {
+  now?: number
+  // Adds the locale's month and weekday names and picks the order of numeric
+  // dates. Relative words (today, next, in 3 days, every...) stay English-only.
+  locale?: string
+  timeZone?: string
+}
+
+export interface DueDateMatch {
+  timestamp: number
+  // Where the phrase sits in the text, so it can be cut out
+  index: number
+  length: number
+  hasTime: boolean
+  // RRULE for "every monday", "every 2 weeks" and the like
+  recurrence?: string
+}
+
+const DEFAULT_TIME: WallTime = { hour: 9, minute: 0 }
+const TONIGHT: WallTime = { hour: 20, minute: 0 }
+
+const ENGLISH_WEEKDAYS = [
+  ['sunday', 'sun'],
+  ['monday', 'mon'],
+  ['tuesday', 'tue', 'tues'],
+  ['wednesday', 'wed'],
+  ['thursday', 'thu', 'thur', 'thurs'],
+  ['friday', 'fri'],
+  ['saturday', 'sat'],
+]
+
+const ENGLISH_MONTHS = [
+  ['january', 'jan'],
+  ['february', 'feb'],
+  ['march', 'mar'],
+  ['april', 'apr'],
+  ['may'],
+  ['june', 'jun'],
+  ['july', 'jul'],
+  ['august', 'aug'],
+  ['september', 'sep', 'sept'],
+  ['october', 'oct'],
+  ['november', 'nov'],
+  ['december', 'dec'],
+]
+
+// Phrases must stand alone: "9am" in "19am" or "mon" in "money" don't count
+const BEFORE = '(?<![\\p{L}\\p{N}/:.-])'
+const AFTER = '(?![\\p{L}\\p{N}]|[/:.-]\\p{N})'
+
+const TIME_PATTERN =
+  '(?:(noon|midday)|(midnight)|(\\d{1,2})(?::(\\d{2}))?\\s*([ap])\\.?m\\.?|(\\d{1,2}):(\\d{2}))'
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// ---- Locale names ----
+
+function getLocaleNames(locale: string, kind: 'weekday' | 'month') {
+  const names: Array<Array<string>> = []
+  const count = kind === 'weekday' ? 7 : 12
+  for (let index = 0; index < count; index++) {
+    // Jan 2023 starts on a Sunday, so day index + 1 is that weekday
+    const sample =
+      kind === 'weekday'
+        ? new Date(Date.UTC(2023, 0, index + 1, 12))
+        : new Date(Date.UTC(2023, index, 15, 12))
+    names.push(
+      (['long', 'short'] as const).map((width) =>
+        new Intl.DateTimeFormat(locale, { [kind]: width, timeZone: 'UTC' })
+          .format(sample)
+          .toLowerCase()
+          .replace(/\.$/, ''),
+      ),
+    )
+  }
+  return names
+}
+
+function isDayFirst(locale: string) {
+  const parts = new Intl.DateTimeFormat(locale, {
+    day: 'numeric',
+    month: 'numeric',
+  }).formatToParts(new Date(Date.UTC(2000, 10, 22, 12)))
+  const day = parts.findIndex((part) => part.type === 'day')
+  const month = parts.findIndex((part) => part.type === 'month')
+  return day < month
+}
+
+// Builds an alternation that maps each matched name back to its index
+function buildNameMatcher(groups: Array<Array<string>>) {
+  const lookup = new Map<string, number>()
+  groups.forEach((names, index) => {
+    for (const name of names) {
+      if (!lookup.has(name)) lookup.set(name, index)
+    }
+  })
+  const pattern = [...lookup.keys()]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|')
+  return { pattern, lookup }
+}
+
+// ---- Rules ----
+
+interface RuleContext {
+  today: CalendarDate
+  now: number
+  weekdays: Map<string, number>
+  months: Map<string, number>
+  dayFirst: boolean
+}
+
+// A rule resolves a match to a date, plus a time when the phrase fixes one
+// ("in 2 hours", "tonight") and a repeat rule when it repeats
+type RuleResult = {
+  date: CalendarDate
+  time?: WallTime
+  exact?: number
+  recurrence?: string
+} | null
+
+interface Rule {
+  pattern: string
+  resolve: (match: RegExpExecArray, context: RuleContext) => RuleResult
+}
+
+function buildRules(weekdayPattern: string, monthPattern: string): Array<Rule> {
+  const year = '(?:,?\\s+(\\d{4}))?'
+  return [
+    {
+      pattern: '(day after tomorrow|today|tonight|tomorrow|tmrw?)',
+      resolve: ([, word], { today }) => {
+        switch (word.toLowerCase()) {
+          case 'day after tomorrow':
+            return { date: addDays(today, 2) }
+          case 'tonight':
+            return { date: today, time: TONIGHT }
+          case 'today':
+            return { date: today }
+          default:
+            return { date: addDays(today, 1) }
+        }
+      },
+    },
+    {
+      pattern:
+        'in\\s+(a|an|\\d+)\\s+(minute|min|hour|hr|day|week|month|year)s?',
+      resolve: ([, amount, unit], { today, now }) => {
+        const count = /^an?$/i.test(amount) ? 1 : Number(amount)
+        switch (unit.toLowerCase()) {
+          case 'minute':
+          case 'min':
+            return { date: today, exact: now + count * 60 * 1000 }
+          case 'hour':
+          case 'hr':
+            return { date: today, exact: now + count * 60 * 60 * 1000 }
+          case 'day':
+            return { date: addDays(today, count) }
+          case 'week':
+            return { date: addDays(today, count * 7) }
+          case 'month':
+            return { date: addMonths(today, count) }
+          default:
+            return { date: addMonths(today, count * 12) }
+        }
+      },
+    },
+    {
+      // next week is its Monday, next month and year their first day
+      pattern: 'next\\s+(week|month|year)',
+      resolve: ([, unit], { today }) => {
+        switch (unit.toLowerCase()) {
+          case 'week':
+            return { date: addDays(today, 8 - (getWeekday(today) || 7)) }
+          case 'month':
+            return { date: addMonths({ ...today, day: 1 }, 1) }
+          default:
+            return { date: { year: today.year + 1, month: 1, day: 1 } }
+        }
+      },
+    },
+    {
+      // Repeats start today, or on Monday for "every weekday" at a weekend
+      pattern: 'every\\s+(?:(\\d+|other)\\s+)?(day|weekday|week|month|year)s?',
+      resolve: ([, amount, unit], { today }) => {
+        const interval = !amount
+          ? 1
+          : /^other$/i.test(amount)
+            ? 2
+            : Number(amount)
+        if (interval < 1) return null
+        const suffix = interval > 1 ? `;INTERVAL=${interval}` : ''
+        switch (unit.toLowerCase()) {
+          case 'day':
+            return { date: today, recurrence: `FREQ=DAILY${suffix}` }
+          case 'weekday': {
+            const weekday = getWeekday(today)
+            const ahead = weekday === 6 ? 2 : weekday === 0 ? 1 : 0
+            return {
+              date: addDays(today, ahead),
+              recurrence: `FREQ=WEEKLY${suffix};BYDAY=MO,TU,WE,TH,FR`,
+            }
+          }
+          case 'week':
+            return { date: today, recurrence: `FREQ=WEEKLY${suffix}` }
+          case 'month':
+            return { date: today, recurrence: `FREQ=MONTHLY${suffix}` }
+          default:
+            return { date: today, recurrence: `FREQ=YEARLY${suffix}` }
+        }
+      },
+    },
+    {
+      // "friday" is the coming one; "next friday" is the one in next week
+      pattern: `(?:(next|this|every|on)\\s+)?(${weekdayPattern})`,
+      resolve: ([, qualifier, name], { today, weekdays }) => {
+        const weekday = weekdays.get(name.toLowerCase())
+        if (weekday === undefined) return null
+        // Short names like "sun" or "sat" are words too; they need a qualifier
+        if (!qualifier && name.length <= 3) return null
+
+        const ahead = (weekday - getWeekday(today) + 7) % 7 || 7
+        const date = addDays(today, ahead)
+        if (/^next$/i.test(qualifier)) {
+          // Still this week (weeks start on Monday): skip to the next one
+          const daysLeftInWeek = 7 - (getWeekday(today) || 7)
+          if (ahead <= daysLeftInWeek) return { date: addDays(date, 7) }
+        }
+        if (/^every$/i.test(qualifier)) {
+          return {
+            date,
+            recurrence: `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[weekday]}`,
+          }
+        }
+        return { date }
+      },
+    },
+    {
+      pattern: '(\\d{4})-(\\d{2})-(\\d{2})',
+      resolve: ([, y, m, d]) => ({
+        date: { year: Number(y), month: Number(m), day: Number(d) },
+      }),
+    },
+    {
+      pattern: `(${monthPattern})\\s+(\\d{1,2})(?:st|nd|rd|th)?${year}`,
+      resolve: ([, name, day, y], context) =>
+        resolveMonthDay(
+          context,
+          context.months.get(name.toLowerCase()),
+          day,
+          y,
+        ),
+    },
+    {
+      pattern: `(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${monthPattern})${year}`,
+      resolve: ([, day, name, y], context) =>
+        resolveMonthDay(
+          context,
+          context.months.get(name.toLowerCase()),
+          day,
+          y,
+        ),
+    },
+    {
+      // 3/4 and 3/4/25, or 3.4.2025; "1.5" alone is more likely a number
+      pattern:
+        '(\\d{1,2})/(\\d{1,2})(?:/(\\d{4}|\\d{2}))?|(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4}|\\d{2})',
+      resolve: (match, context) => {
+        const [first, second, y] = match[1] ? match.slice(1, 4) : match.slice(4)
+        const [day, month] = context.dayFirst
+          ? [first, second]
+          : [second, first]
+        const fullYear = y && y.length === 2 ? `20${y}` : y
+        return resolveMonthDay(context, Number(month) - 1, day, fullYear)
+      },
+    },
+  ]
+}
+
+// Without a year, a date that has passed this year means next year's
+function resolveMonthDay(
+  { today }: RuleContext,
+  monthIndex: number | undefined,
+  day: string,
+  year: string | undefined,
+): RuleResult {
+  if (monthIndex === undefined) return null
+  const date = {
+    year: year ? Number(year) : today.year,
+    month: monthIndex + 1,
+    day: Number(day),
+  }
+  if (!year && compareDates(date, today) < 0) date.year++
+  return { date }
+}
+
+function readTime(match: RegExpExecArray, offset: number): WallTime | null {
+  const [noon, midnight, hour12, minute12, meridiem, hour24, minute24] =
+    match.slice(offset, offset + 7)
+  if (noon) return { hour: 12, minute: 0 }
+  if (midnight) return { hour: 0, minute: 0 }
+  if (hour12) {
+    const hour = Number(hour12)
+    const minute = Number(minute12 || 0)
+    if (hour < 1 || hour > 12 || minute > 59) return null
+    const isPm = meridiem.toLowerCase() === 'p'
+    return { hour: (hour % 12) + (isPm ? 12 : 0), minute }
+  }
+  const hour = Number(hour24)
+  const minute = Number(minute24)
+  if (hour > 23 || minute > 59) return null
+  return { hour, minute }
+}
+
+// ---- Parser ----
+
+// Rules and name tables are built once per locale
+const parsers = new Map<string, ReturnType<typeof buildParser>>()
+
+function buildParser(locale: string) {
+  const localeWeekdays = getLocaleNames(locale, 'weekday')
+  const localeMonths = getLocaleNames(locale, 'month')
+  const weekdays = buildNameMatcher(
+    ENGLISH_WEEKDAYS.map((names, index) => [
+      ...names,
+      ...localeWeekdays[index],
+    ]),
+  )
+  const months = buildNameMatcher(
+    ENGLISH_MONTHS.map((names, index) => [...names, ...localeMonths[index]]),
+  )
+  const rules = buildRules(weekdays.pattern, months.pattern).map((rule) => ({
+    ...rule,
+    regex: new RegExp(`${BEFORE}${rule.pattern}${AFTER}`, 'giu'),
+  }))
+
+  return {
+    rules,
+    weekdays: weekdays.lookup,
+    months: months.lookup,
+    dayFirst: isDayFirst(locale),
+    timeAfter: new RegExp(
+      `^[ \\t]+(?:at[ \\t]+|@[ \\t]*)?${TIME_PATTERN}${AFTER}`,
+      'iu',
+    ),
+    timeBefore: new RegExp(
+      `${BEFORE}(?:at[ \\t]+|@[ \\t]*)?${TIME_PATTERN}[ \\t]+(?:on[ \\t]+)?$`,
+      'iu',
+    ),
+    timeAlone: new RegExp(
+      `${BEFORE}(at[ \\t]+|@[ \\t]*)?${TIME_PATTERN}${AFTER}`,
+      'giu',
+    ),
+    connective: /(?:^|[ \t])((?:due|by|on)[ \t]+)$/i,
+  }
+}
+
+function getParser(locale: string) {
+  let parser = parsers.get(locale)
+  if (!parser) {
+    parser = buildParser(locale)
+    parsers.set(locale, parser)
+  }
+  return parser
+}
+
+// The zone repeating todos keep their time in
+export function getLocalTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+function getDefaults(options: DueDateOptions) {
+  const resolved = Intl.DateTimeFormat().resolvedOptions()
+  return {
+    now: options.now ?? Date.now(),
+    locale: options.locale ?? resolved.locale,
+    timeZone: options.timeZone ?? resolved.timeZone,
+  }
+}
+
+// Finds the first date phrase in the text, with a time next to it if any
+export function findDueDate(
+  text: string,
+  options: DueDateOptions = {},
+): DueDateMatch | null {
+  const { now, locale, timeZone } = getDefaults(options)
+  const parser = getParser(locale)
+  const zoned = getZonedParts(now, timeZone)
+  const context: RuleContext = {
+    today: { year: zoned.year, month: zoned.month, day: zoned.day },
+    now,
+    weekdays: parser.weekdays,
+    months: parser.months,
+    dayFirst: parser.dayFirst,
+  }
+
+  // The earliest phrase wins; among phrases starting together, the longest
+  let best: { match: RegExpExecArray; result: NonNullable<RuleResult> } | null =
+    null
+  for (const rule of parser.rules) {
+    for (const match of text.matchAll(rule.regex)) {
+      const result = rule.resolve(match, context)
+      if (!result || !isValidDate(result.date)) continue
+      if (
+        !best ||
+        match.index < best.match.index ||
+        (match.index === best.match.index &&
+          match[0].length > best.match[0].length)
+      ) {
+        best = { match, result }
+      }
+      break
+    }
+  }
+
+  if (!best) {
+    // Only a time: today, or tomorrow once it has passed
+    // A bare 24-hour time needs "at", or any 10:30 in the text would do
+    const match = Array.from(text.matchAll(parser.timeAlone)).find(
+      (candidate) => candidate[1] || !candidate[7],
+    )
+    const time = match ? readTime(match, 2) : null
+    if (!match || !time) return null
+    let timestamp = toTimestamp(context.today, time, timeZone)
+    if (timestamp <= now) {
+      timestamp = toTimestamp(addDays(context.today, 1), time, timeZone)
+    }
+    return withConnective(parser.connective, text, {
+      timestamp,
+      index: match.index,
+      length: match[0].length,
+      hasTime: true,
+    })
+  }
+
+  const { match, result } = best
+  let index = match.index
+  let end = match.index + match[0].length
+
+  if (result.exact !== undefined) {
+    return withConnective(parser.connective, text, {
+      timestamp: result.exact,
+      index,
+      length: end - index,
+      hasTime: true,
+    })
+  }
+
+  let time = result.time
+  const after = parser.timeAfter.exec(text.slice(end))
+  const before = after ? null : parser.timeBefore.exec(text.slice(0, index))
+  const timeMatch = after ?? before
+  const explicit = timeMatch ? readTime(timeMatch, 1) : null
+  if (explicit) {
+    time = explicit
+    if (after) end += after[0].length
+    else if (before) index = before.index
+  }
+
+  return withConnective(parser.connective, text, {
+    timestamp: toTimestamp(result.date, time ?? DEFAULT_TIME, timeZone),
+    index,
+    length: end - index,
+    hasTime: !!time,
+    recurrence: result.recurrence,
+  })
+}
+
+// "due friday" or "by tomorrow": the little word goes with the date
+function withConnective(
+  connective: RegExp,
+  text: string,
+  match: DueDateMatch,
+): DueDateMatch {
+  const found = connective.exec(text.slice(0, match.index))
+  if (!found) return match
+  const length = found[1].length
+  return {
+    ...match,
+    index: match.index - length,
+    length: match.length + length,
+  }
+}
+
+// Parses text that is only a date, like the argument to /due
+export function parseDueDate(text: string, options: DueDateOptions = {}) {
+  const trimmed = text.trim()
+  const match = findDueDate(trimmed, options)
+  if (!match || match.index !== 0 || match.length !== trimmed.length) {
+    return null
+  }
+  return match
+}
+
+// For the preview chip: "Fri, 23 Oct 2026, 15:00" in the user's locale
+export function formatDueDate(timestamp: number, options: DueDateOptions = {}) {
+  return new Date(timestamp).toLocaleString(options.locale, {
+    timeZone: options.timeZone,
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  })
+}
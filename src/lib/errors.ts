@@ -0,0 +1,12 @@
+import { ConvexError } from 'convex/values'
+
+// Server errors meant for the user are thrown as ConvexError with the message
+// as their data; Convex hides the message of any other server error in
+// production, so those fall back to a generic one
+export function getErrorMessage(error: unknown, fallback: string) {
+  if (error instanceof ConvexError) {
+    return typeof error.data === 'string' ? error.data : fallback
+  }
+  if (!(error instanceof Error) || !error.message) return fallback
+  return error.message.startsWith('[CONVEX') ? fallback : error.message
+}
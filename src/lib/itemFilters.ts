@@ -0,0 +1,14 @@
+import type { FunctionArgs } from 'convex/server'
+import type { api } from '@@/convex/_generated/api'
+
+// The filter definition lives on the server; every item list sends this shape
+export type ItemFilters = FunctionArgs<
+  typeof api.items.getChestItemsPage
+>['filters']
+export type TypeFilter = ItemFilters['type']
+export type ViewMode = ItemFilters['viewMode']
+
+export function startOfToday() {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+}
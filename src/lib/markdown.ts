@@ -0,0 +1,40 @@
+import TurndownService from 'turndown'
+
+// Elements that turn into markdown syntax; HTML without any of them is just
+// text and pastes as such
+const FORMATTING_SELECTOR =
+  'a[href], b, strong, i, em, h1, h2, h3, h4, h5, h6, ul, ol, pre, code, blockquote, table, img[src]'
+
+const turndown = new TurndownService({
+  headingStyle: 'atx',
+  bulletListMarker: '-',
+  codeBlockStyle: 'fenced',
+  emDelimiter: '*',
+})
+turndown.remove(['script', 'style', 'meta', 'link', 'title'])
+
+// A copied link arrives as HTML holding just the anchor; it pastes as the
+// plain text the browser put next to it
+function isSingleLink(body: HTMLElement) {
+  const formatted = body.querySelectorAll(FORMATTING_SELECTOR)
+  return (
+    formatted.length === 1 &&
+    formatted[0].matches('a[href]') &&
+    formatted[0].textContent.trim() === body.textContent.trim()
+  )
+}
+
+// Converts HTML from the clipboard into markdown for a note, or returns null
+// when the HTML has no formatting worth keeping
+export function htmlToMarkdown(html: string) {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  if (!doc.body.querySelector(FORMATTING_SELECTOR) || isSingleLink(doc.body)) {
+    return null
+  }
+
+  const markdown = turndown
+    .turndown(doc.body)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+  return markdown || null
+}
@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '@@/convex/_generated/api'
+
+const SERVICE_WORKER_URL = '/sw.js'
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+function decodeKey(key: string) {
+  const base64 = (key + '='.repeat((4 - (key.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0))
+}
+
+async function getSubscription() {
+  const registration =
+    await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+  return (await registration?.pushManager.getSubscription()) ?? null
+}
+
+// Web Push for reminders in this browser. Unavailable when the browser lacks
+// it or the deployment has no VAPID keys; in-app notifications work either way.
+export function usePushNotifications() {
+  const publicKey = useQuery(api.notifications.getPushPublicKey)
+  const saveSubscription = useMutation(api.notifications.savePushSubscription)
+  const removeSubscription = useMutation(
+    api.notifications.removePushSubscription,
+  )
+  const [isEnabled, setIsEnabled] = useState(false)
+
+  const isSupported =
+    !!publicKey &&
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window
+
+  useEffect(() => {
+    if (!isSupported) return
+    void getSubscription().then((subscription) =>
+      setIsEnabled(subscription !== null),
+    )
+  }, [isSupported])
+
+  const enable = useCallback(async () => {
+    if (!publicKey) return
+    if ((await Notification.requestPermission()) !== 'granted') {
+      throw new Error('Notifications are blocked for this site')
+    }
+    const registration =
+      await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+    await navigator.serviceWorker.ready
+    const subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeKey(publicKey),
+    })
+    const { endpoint, keys } = subscription.toJSON()
+    if (!endpoint || !keys?.p256dh || !keys.auth) {
+      throw new Error('The browser returned an incomplete push subscription')
+    }
+    await saveSubscription({ endpoint, p256dh: keys.p256dh, auth: keys.auth })
+    setIsEnabled(true)
+  }, [publicKey, saveSubscription])
+
+  const disable = useCallback(async () => {
+    const subscription = await getSubscription()
+    if (subscription) {
+      await removeSubscription({ endpoint: subscription.endpoint })
+      await subscription.unsubscribe()
+    }
+    setIsEnabled(false)
+  }, [removeSubscription])
+
+  return { isSupported, isEnabled, enable, disable }
+}
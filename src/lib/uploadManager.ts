@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import type { Id } from '@@/convex/_generated/dataModel'
+import { getErrorMessage } from '@/lib/errors'
+import { isRetryableUploadError, useUploadFile } from '@/lib/uploads'
+
+const MAX_CONCURRENT_UPLOADS = 3
+const MAX_ATTEMPTS = 3
+const RETRY_DELAY_MS = 1000
+
+export type UploadStatus =
+  | 'queued'
+  | 'uploading'
+  | 'retrying'
+  | 'saving'
+  | 'done'
+  | 'failed'
+  | 'cancelled'
+
+export interface UploadEntry {
+  id: string
+  file: File
+  status: UploadStatus
+  progress: number
+  error?: string
+}
+
+// Turns an uploaded file into an item; called once the bytes are stored
+export type SaveUpload = (
+  file: File,
+  itemType: 'image' | 'file',
+  storageId: Id<'_storage'>,
+) => Promise<unknown>
+
+function getItemType(file: File) {
+  return file.type.startsWith('image/') ? 'image' : 'file'
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer)
+        reject(signal.reason)
+      },
+      { once: true },
+    )
+  })
+}
+
+function showSummary(entries: Array<UploadEntry>) {
+  const done = entries.filter((entry) => entry.status === 'done')
+  const failed = entries.filter((entry) => entry.status === 'failed')
+  const plural = (count: number) => `${count} file${count === 1 ? '' : 's'}`
+
+  if (failed.length === 0) {
+    if (done.length > 0) toast.success(`${plural(done.length)} uploaded!`)
+    return
+  }
+  toast.error(
+    done.length > 0
+      ? `${plural(done.length)} uploaded, ${failed.length} failed`
+      : `${plural(failed.length)} failed to upload`,
+    {
+      description: failed
+        .map((entry) => `${entry.file.name}: ${entry.error}`)
+        .join('\n'),
+    },
+  )
+}
+
+// Uploads files a few at a time with progress, retries and cancellation. Each
+// file is saved as soon as it's stored, so one failure doesn't undo the rest.
+// Upload URLs take the whole file in one request, so a retry starts the file
+// over rather than resuming it.
+export function useUploadManager(chestId: Id<'chests'>) {
+  const uploadFile = useUploadFile(chestId)
+  const [uploads, setUploads] = useState<Array<UploadEntry>>([])
+
+  const controllers = useRef(new Map<string, AbortController>())
+  const savers = useRef(new Map<string, SaveUpload>())
+  const active = useRef(0)
+  const waiting = useRef<Array<() => void>>([])
+
+  // Cancel everything still running when the chest is left
+  useEffect(() => {
+    const running = controllers.current
+    return () => {
+      for (const controller of running.values()) controller.abort()
+    }
+  }, [])
+
+  const update = useCallback((id: string, patch: Partial<UploadEntry>) => {
+    setUploads((prev) =>
+      prev.map((entry) => (entry.id === id ? { ...entry, ...patch } : entry)),
+    )
+  }, [])
+
+  // Rejects, without taking a slot, if the upload is cancelled while queued
+  const acquireSlot = useCallback(async (signal: AbortSignal) => {
+    signal.throwIfAborted()
+    if (active.current < MAX_CONCURRENT_UPLOADS) {
+      active.current++
+      return
+    }
+    await new Promise<void>((resolve, reject) => {
+      const next = () => {
+        signal.removeEventListener('abort', onAbort)
+        resolve()
+      }
+      const onAbort = () => {
+        waiting.current = waiting.current.filter((other) => other !== next)
+        reject(signal.reason)
+      }
+      waiting.current.push(next)
+      signal.addEventListener('abort', onAbort, { once: true })
+    })
+  }, [])
+
+  const releaseSlot = useCallback(() => {
+    const next = waiting.current.shift()
+    if (next) next()
+    else active.current--
+  }, [])
+
+  const run = useCallback(
+    async (entry: UploadEntry): Promise<UploadEntry> => {
+      const controller = new AbortController()
+      const save = savers.current.get(entry.id)!
+      const finish = (patch: Partial<UploadEntry>) => {
+        update(entry.id, patch)
+        return { ...entry, ...patch }
+      }
+
+      // Registered before queueing so a waiting upload can be cancelled too
+      controllers.current.set(entry.id, controller)
+      try {
+        await acquireSlot(controller.signal)
+      } catch {
+        controllers.current.delete(entry.id)
+        return finish({ status: 'cancelled' })
+      }
+
+      try {
+        for (let attempt = 1; ; attempt++) {
+          try {
+            controllers.current.set(entry.id, controller)
+            controller.signal.throwIfAborted()
+            update(entry.id, {
+              status: 'uploading',
+              progress: 0,
+              error: undefined,
+            })
+            const itemType = getItemType(entry.file)
+            const storageId = await uploadFile(entry.file, itemType, {
+              signal: controller.signal,
+              onProgress: (progress) => update(entry.id, { progress }),
+            })
+
+            // A cancel that came in while the request finished still wins;
+            // once saving starts the item is on its way and can't be stopped
+            controller.signal.throwIfAborted()
+            controllers.current.delete(entry.id)
+            update(entry.id, { status: 'saving', progress: 1 })
+            await save(entry.file, itemType, storageId)
+            return finish({ status: 'done' })
+          } catch (error) {
+            if (controller.signal.aborted) {
+              return finish({ status: 'cancelled' })
+            }
+            if (attempt < MAX_ATTEMPTS && isRetryableUploadError(error)) {
+              update(entry.id, { status: 'retrying', progress: 0 })
+              await wait(RETRY_DELAY_MS * 2 ** (attempt - 1), controller.signal)
+              continue
+            }
+            return finish({
+              status: 'failed',
+              error: getErrorMessage(error, 'Upload failed'),
+            })
+          }
+        }
+      } catch {
+        // Only the retry wait throws here, when cancelled during it
+        return finish({ status: 'cancelled' })
+      } finally {
+        controllers.current.delete(entry.id)
+        releaseSlot()
+      }
+    },
+    [acquireSlot, releaseSlot, update, uploadFile],
+  )
+
+  // Finished and cancelled uploads leave the list; failed ones stay so they
+  // can be retried or dismissed
+  const settle = useCallback((entries: Array<UploadEntry>) => {
+    const settled = new Set(
+      entries
+        .filter((entry) => entry.status !== 'failed')
+        .map((entry) => entry.id),
+    )
+    for (const id of settled) savers.current.delete(id)
+    setUploads((prev) => prev.filter((entry) => !settled.has(entry.id)))
+    showSummary(entries)
+  }, [])
+
+  const upload = useCallback(
+    async (files: Array<File>, save: SaveUpload) => {
+      const entries = files.map(
+        (file): UploadEntry => ({
+          id: crypto.randomUUID(),
+          file,
+          status: 'queued',
+          progress: 0,
+        }),
+      )
+      for (const entry of entries) savers.current.set(entry.id, save)
+      setUploads((prev) => [...prev, ...entries])
+
+      settle(await Promise.all(entries.map(run)))
+    },
+    [run, settle],
+  )
+
+  const retry = useCallback(
+    async (id: string) => {
+      const entry = uploads.find((candidate) => candidate.id === id)
+      if (entry?.status !== 'failed') return
+      update(id, { status: 'queued', progress: 0, error: undefined })
+      settle([await run(entry)])
+    },
+    [uploads, run, settle, update],
+  )
+
+  const cancel = useCallback((id: string) => {
+    controllers.current.get(id)?.abort()
+  }, [])
+
+  const cancelAll = useCallback(() => {
+    for (const controller of controllers.current.values()) controller.abort()
+  }, [])
+
+  const dismiss = useCallback((id: string) => {
+    savers.current.delete(id)
+    setUploads((prev) => prev.filter((entry) => entry.id !== id))
+  }, [])
+
+  return { uploads, upload, retry, cancel, cancelAll, dismiss }
+}
@@ -0,0 +1,105 @@
+import { useCallback } from 'react'
+import { useConvex, useMutation } from 'convex/react'
+import { api } from '@@/convex/_generated/api'
+import type { Id } from '@@/convex/_generated/dataModel'
+
+// Hashing reads the whole file into memory, so only files up to this size are
+// checked before uploading; addItem matches larger ones by the hash storage
+// computes once they're uploaded
+const MAX_HASHED_SIZE = 16 * 1024 * 1024
+
+// Hex SHA-256, matching the contentHash the server stores on items
+export async function hashFile(file: Blob) {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('')
+}
+
+interface UploadOptions {
+  // Fraction of the bytes sent, from 0 to 1
+  onProgress?: (progress: number) => void
+  signal?: AbortSignal
+}
+
+// Thrown when the bytes didn't reach storage; unlike a rejection from the
+// server, trying again may work
+class UploadNetworkError extends Error {}
+
+export function isRetryableUploadError(error: unknown) {
+  return error instanceof UploadNetworkError
+}
+
+// fetch can't report upload progress, so the POST goes through XHR
+function sendFile(url: string, file: File, options: UploadOptions) {
+  return new Promise<Id<'_storage'>>((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('POST', url)
+    if (file.type) xhr.setRequestHeader('Content-Type', file.type)
+    xhr.responseType = 'json'
+
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) options.onProgress?.(e.loaded / e.total)
+    }
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve((xhr.response as { storageId: Id<'_storage'> }).storageId)
+      } else if (xhr.status >= 500) {
+        reject(new UploadNetworkError(`Upload failed (${xhr.status})`))
+      } else {
+        reject(new Error(`Upload rejected (${xhr.status})`))
+      }
+    }
+    xhr.onerror = () => reject(new UploadNetworkError('Network error'))
+    xhr.onabort = () =>
+      reject(new DOMException('Upload cancelled', 'AbortError'))
+
+    if (options.signal?.aborted) {
+      xhr.abort()
+      return
+    }
+    options.signal?.addEventListener('abort', () => xhr.abort(), {
+      once: true,
+    })
+    xhr.send(file)
+  })
+}
+
+// Returns a storage id for the file's bytes, uploading only when the chest's
+// owner doesn't already have the same bytes stored
+export function useUploadFile(chestId: Id<'chests'>) {
+  const convex = useConvex()
+  const generateUploadUrl = useMutation(api.items.generateUploadUrl)
+
+  return useCallback(
+    async (
+      file: File,
+      itemType: 'image' | 'file',
+      options: UploadOptions = {},
+    ) => {
+      if (file.size <= MAX_HASHED_SIZE) {
+        const contentHash = await hashFile(file)
+        const existing = await convex.query(api.items.findStoredFile, {
+          chestId,
+          contentHash,
+        })
+        if (existing) {
+          options.onProgress?.(1)
+          return existing
+        }
+      }
+
+      // Rejects files the chest's policy or quota won't take before sending them
+      const uploadUrl = await generateUploadUrl({
+        chestId,
+        itemType,
+        fileSize: file.size,
+        mimeType: file.type || undefined,
+        filename: file.name,
+      })
+      options.signal?.throwIfAborted()
+      return await sendFile(uploadUrl, file, options)
+    },
+    [convex, chestId, generateUploadUrl],
+  )
+}
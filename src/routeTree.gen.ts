@@ -9,12 +9,18 @@
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
 import { Route as rootRouteImport } from './routes/__root'
+import { Route as SearchRouteImport } from './routes/search'
 import { Route as AnotherPageRouteImport } from './routes/anotherPage'
 import { Route as AcceptInviteRouteImport } from './routes/accept-invite'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as ChestIndexRouteImport } from './routes/chest/index'
 import { Route as ChestChestIdIndexRouteImport } from './routes/chest/$chestId/index'
 
+const SearchRoute = SearchRouteImport.update({
+  id: '/search',
+  path: '/search',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AnotherPageRoute = AnotherPageRouteImport.update({
   id: '/anotherPage',
   path: '/anotherPage',
@@ -45,6 +51,7 @@ export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/accept-invite': typeof AcceptInviteRoute
   '/anotherPage': typeof AnotherPageRoute
+  '/search': typeof SearchRoute
   '/chest': typeof ChestIndexRoute
   '/chest/$chestId': typeof ChestChestIdIndexRoute
 }
@@ -52,6 +59,7 @@ export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/accept-invite': typeof AcceptInviteRoute
   '/anotherPage': typeof AnotherPageRoute
+  '/search': typeof SearchRoute
   '/chest': typeof ChestIndexRoute
   '/chest/$chestId': typeof ChestChestIdIndexRoute
 }
@@ -60,6 +68,7 @@ export interface FileRoutesById {
   '/': typeof IndexRoute
   '/accept-invite': typeof AcceptInviteRoute
   '/anotherPage': typeof AnotherPageRoute
+  '/search': typeof SearchRoute
   '/chest/': typeof ChestIndexRoute
   '/chest/$chestId/': typeof ChestChestIdIndexRoute
 }
@@ -69,15 +78,23 @@ export interface FileRouteTypes {
     | '/'
     | '/accept-invite'
     | '/anotherPage'
+    | '/search'
     | '/chest'
     | '/chest/$chestId'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/accept-invite' | '/anotherPage' | '/chest' | '/chest/$chestId'
+  to:
+    | '/'
+    | '/accept-invite'
+    | '/anotherPage'
+    | '/search'
+    | '/chest'
+    | '/chest/$chestId'
   id:
     | '__root__'
     | '/'
     | '/accept-invite'
     | '/anotherPage'
+    | '/search'
     | '/chest/'
     | '/chest/$chestId/'
   fileRoutesById: FileRoutesById
@@ -86,12 +103,20 @@ export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   AcceptInviteRoute: typeof AcceptInviteRoute
   AnotherPageRoute: typeof AnotherPageRoute
+  SearchRoute: typeof SearchRoute
   ChestIndexRoute: typeof ChestIndexRoute
   ChestChestIdIndexRoute: typeof ChestChestIdIndexRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/search': {
+      id: '/search'
+      path: '/search'
+      fullPath: '/search'
+      preLoaderRoute: typeof SearchRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/anotherPage': {
       id: '/anotherPage'
       path: '/anotherPage'
@@ -134,18 +159,10 @@ const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   AcceptInviteRoute: AcceptInviteRoute,
   AnotherPageRoute: AnotherPageRoute,
+  SearchRoute: SearchRoute,
   ChestIndexRoute: ChestIndexRoute,
   ChestChestIdIndexRoute: ChestChestIdIndexRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
   ._addFileTypes<FileRouteTypes>()
-
-import type { getRouter } from './router.tsx'
-import type { createStart } from '@tanstack/react-start'
-declare module '@tanstack/react-start' {
-  interface Register {
-    ssr: true
-    router: Awaited<ReturnType<typeof getRouter>>
-  }
-}
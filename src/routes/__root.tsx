@@ -5,8 +5,10 @@ import {
   createRootRouteWithContext,
 } from '@tanstack/react-router'
 import * as React from 'react'
+import { Authenticated } from 'convex/react'
 import type { QueryClient } from '@tanstack/react-query'
 import { Toaster } from '@/components/ui/sonner'
+import { NotificationToasts } from '@/components/NotificationToasts'
 
 import appCss from '@/styles/app.css?url'
 
@@ -50,6 +52,9 @@ function RootComponent() {
   return (
     <RootDocument>
       <Toaster />
+      <Authenticated>
+        <NotificationToasts />
+      </Authenticated>
       <Outlet />
     </RootDocument>
   )
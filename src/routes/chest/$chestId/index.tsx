@@ -1,20 +1,31 @@
 // src/routes/chest.$chestId.tsx
-import { createFileRoute, useNavigate, Link } from '@tanstack/react-router'
+import { Link, createFileRoute, useNavigate } from '@tanstack/react-router'
 import { Authenticated, useQuery } from 'convex/react'
 import { api } from '@@/convex/_generated/api'
+import { ArrowLeft, Edit, Users } from 'lucide-react'
+import { useState } from 'react'
+import { formatBytes } from '@@/convex/format'
+import type { Id } from '@@/convex/_generated/dataModel'
 import { ChestView } from '@/components/ChestView'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { ArrowLeft, Users, Edit } from 'lucide-react'
-import type { Id } from '@@/convex/_generated/dataModel'
 import { AnimatedThemeToggler } from '@/components/ui/animated-theme-toggler'
 import { SignOutButton } from '@/SignOutButton'
-import { useState } from 'react'
+import { NotificationBell } from '@/components/NotificationBell'
 import { CollaboratorDialog } from '@/components/CollaboratorDialog'
 import { EditChestDialog } from '@/components/EditChestDialog'
+import { UsageBar } from '@/components/UsageBar'
 
 export const Route = createFileRoute('/chest/$chestId/')({
   component: ChestPage,
+  validateSearch: (
+    search: Record<string, unknown>,
+  ): { q?: string; item?: string } => {
+    return {
+      q: (search.q as string) || undefined,
+      item: (search.item as string) || undefined,
+    }
+  },
   errorComponent: ({ error }) => (
     <div className="container mx-auto py-8 px-4">
       <div className="text-center max-w-md mx-auto">
@@ -33,10 +44,14 @@ export const Route = createFileRoute('/chest/$chestId/')({
 
 function ChestPage() {
   const { chestId } = Route.useParams()
+  const { q, item } = Route.useSearch()
   const navigate = useNavigate()
   const chest = useQuery(api.chests.getChest, {
     chestId: chestId as Id<'chests'>,
   })
+  const usage = useQuery(api.quotas.getChestUsage, {
+    chestId: chestId as Id<'chests'>,
+  })
 
   const [showCollaborators, setShowCollaborators] = useState(false)
   const [showEditChest, setShowEditChest] = useState(false)
@@ -52,6 +67,20 @@ function ChestPage() {
 
   const canEdit = chest.userRole === 'owner' || chest.userRole === 'admin'
 
+  // Hover text for the usage bar: item counts and file sizes per type
+  const usageBreakdown =
+    usage &&
+    [
+      ...Object.entries(usage.byType)
+        .filter(([, { count }]) => count > 0)
+        .map(
+          ([type, { count, bytes }]) =>
+            `${count} ${type}${count === 1 ? '' : 's'}${bytes > 0 ? ` (${formatBytes(bytes)})` : ''}`,
+        ),
+      `Owner total: ${formatBytes(usage.owner.used)} of ${formatBytes(usage.owner.quota)}`,
+      'Thumbnails and previews are not counted',
+    ].join('\n')
+
   return (
     <Authenticated>
       <div className="min-h-screen flex flex-col">
@@ -102,8 +131,18 @@ function ChestPage() {
                 </div>
               </div>
 
-              {/* Right Side: Role + Collaborators + Sign Out + Theme */}
+              {/* Right Side: Usage + Role + Collaborators + Sign Out + Theme */}
               <div className="flex items-center gap-3 shrink-0">
+                {/* Storage Usage */}
+                {usage && (
+                  <UsageBar
+                    used={usage.chest.used}
+                    quota={usage.chest.quota}
+                    title={usageBreakdown}
+                    className="w-40"
+                  />
+                )}
+
                 {/* Role Badge */}
                 <Badge
                   variant={
@@ -130,6 +169,7 @@ function ChestPage() {
                 <div className="h-6 w-px bg-border" />
 
                 {/* Sign Out & Theme */}
+                <NotificationBell />
                 <SignOutButton />
                 <AnimatedThemeToggler />
               </div>
@@ -150,6 +190,7 @@ function ChestPage() {
                 </Link>
 
                 <div className="flex items-center gap-2">
+                  <NotificationBell />
                   <SignOutButton />
                   <AnimatedThemeToggler />
                 </div>
@@ -207,7 +248,11 @@ function ChestPage() {
         </div>
 
         {/* Main Content - Full Height Scrollable */}
-        <ChestView chestId={chestId as Id<'chests'>} />
+        <ChestView
+          chestId={chestId as Id<'chests'>}
+          initialSearch={q}
+          highlightedItemId={item as Id<'items'> | undefined}
+        />
 
         {/* Dialogs */}
         <CollaboratorDialog
@@ -221,6 +266,10 @@ function ChestPage() {
           chestId={chestId as Id<'chests'>}
           currentName={chest.name}
           currentDescription={chest.description}
+          currentCapacity={chest.capacity}
+          currentStripImageMetadata={chest.stripImageMetadata !== false}
+          currentAllowedFileTypes={chest.allowedFileTypes}
+          currentMaxFileSize={chest.maxFileSize}
           open={showEditChest}
           onOpenChange={setShowEditChest}
         />
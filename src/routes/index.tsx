@@ -1,13 +1,14 @@
-import { createFileRoute, useNavigate, Link } from '@tanstack/react-router'
+import { Link, createFileRoute, useNavigate } from '@tanstack/react-router'
 import { Authenticated, Unauthenticated, useQuery } from 'convex/react'
 import { api } from '@@/convex/_generated/api'
+import { useEffect } from 'react'
+import { ArrowLeft, Search } from 'lucide-react'
 import { SignInForm } from '@/SignInForm'
 import { ChestList } from '@/components/ChestList'
-import { useEffect } from 'react'
 import { Button } from '@/components/ui/button'
-import { ArrowLeft } from 'lucide-react'
 import { AnimatedThemeToggler } from '@/components/ui/animated-theme-toggler'
 import { SignOutButton } from '@/SignOutButton'
+import { NotificationBell } from '@/components/NotificationBell'
 
 export const Route = createFileRoute('/')({
   component: Index,
@@ -46,6 +47,12 @@ function Index() {
             <p className="font-bold">echest</p>
           </div>
           <div className="flex items-center justify-center gap-2">
+            <Button variant="outline" size="icon" asChild>
+              <Link to="/search" search={{ q: '' }} title="Search all chests">
+                <Search className="h-4 w-4" />
+              </Link>
+            </Button>
+            <NotificationBell />
             <SignOutButton />
             <AnimatedThemeToggler />
           </div>
@@ -0,0 +1,172 @@
+// src/routes/search.tsx
+import { Link, createFileRoute, useNavigate } from '@tanstack/react-router'
+import { Authenticated, useQuery } from 'convex/react'
+import { api } from '@@/convex/_generated/api'
+import {
+  CheckSquare,
+  File as FileIcon,
+  FileText,
+  Image as ImageIcon,
+  Link2,
+  Search,
+} from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { AnimatedThemeToggler } from '@/components/ui/animated-theme-toggler'
+import { SignOutButton } from '@/SignOutButton'
+import { NotificationBell } from '@/components/NotificationBell'
+
+export const Route = createFileRoute('/search')({
+  component: SearchPage,
+  validateSearch: (search: Record<string, unknown>) => {
+    return {
+      q: (search.q as string) || '',
+    }
+  },
+})
+
+function SearchPage() {
+  const { q } = Route.useSearch()
+  const navigate = useNavigate()
+  const results = useQuery(api.search.searchMyItems, { search: q })
+
+  const getItemIcon = (type: string) => {
+    const iconClass = 'h-4 w-4'
+    switch (type) {
+      case 'link':
+        return <Link2 className={iconClass} />
+      case 'note':
+        return <FileText className={iconClass} />
+      case 'todo':
+        return <CheckSquare className={iconClass} />
+      case 'image':
+        return <ImageIcon className={iconClass} />
+      case 'file':
+        return <FileIcon className={iconClass} />
+      default:
+        return <FileText className={iconClass} />
+    }
+  }
+
+  return (
+    <Authenticated>
+      <div className="mx-auto py-8 px-4 mb-4 flex items-center justify-between">
+        <Link
+          to="/"
+          className="flex gap-2 items-center justify-center hover:opacity-80 transition-opacity"
+        >
+          <div className="bg-primary text-primary-foreground flex h-8 w-8 items-center justify-center rounded-sm">
+            <img src="./logo.png" alt="echest" />
+          </div>
+          <p className="font-bold">echest</p>
+        </Link>
+        <div className="flex items-center justify-center gap-2">
+          <NotificationBell />
+          <SignOutButton />
+          <AnimatedThemeToggler />
+        </div>
+      </div>
+
+      <div className="container mx-auto py-8 px-4 space-y-6">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            autoFocus
+            placeholder="Search all of your chests..."
+            value={q}
+            onChange={(e) =>
+              navigate({
+                to: '/search',
+                search: { q: e.target.value },
+                replace: true,
+              })
+            }
+            className="pl-9"
+          />
+        </div>
+
+        {!q.trim() ? (
+          <p className="text-center text-muted-foreground py-12">
+            Search notes, links, todos and files across every chest you can
+            access
+          </p>
+        ) : results === undefined ? (
+          <div className="flex justify-center items-center min-h-[200px]">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : results.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">
+            No items match "{q}"
+          </p>
+        ) : (
+          results.map(({ chest, items }) => (
+            <div key={chest._id} className="bg-card border rounded-lg">
+              <div className="p-4 border-b flex items-center justify-between gap-2">
+                <Link
+                  to="/chest/$chestId"
+                  params={{ chestId: chest._id }}
+                  search={{ q }}
+                  className="text-lg font-semibold truncate hover:underline"
+                >
+                  {chest.name}
+                </Link>
+                <Badge
+                  variant={
+                    chest.role === 'owner'
+                      ? 'default'
+                      : chest.role === 'admin'
+                        ? 'secondary'
+                        : 'outline'
+                  }
+                >
+                  {chest.role}
+                </Badge>
+              </div>
+              <div className="p-2 space-y-1">
+                {items.map((item) => (
+                  <Link
+                    key={item._id}
+                    to="/chest/$chestId"
+                    params={{ chestId: chest._id }}
+                    search={{ q, item: item._id }}
+                    className="flex items-start gap-3 p-3 rounded-lg hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="text-muted-foreground mt-1">
+                      {getItemIcon(item.type)}
+                    </div>
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-sm font-medium truncate">
+                        {item.type === 'note' && item.content
+                          ? item.content.split('\n')[0] || 'Empty note'
+                          : item.title ||
+                            item.label ||
+                            item.filename ||
+                            'Untitled'}
+                      </p>
+                      {item.searchSnippet && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">
+                          {item.searchSnippet.map((segment, index) =>
+                            segment.highlight ? (
+                              <mark
+                                key={index}
+                                className="bg-primary/20 text-foreground rounded-sm px-0.5"
+                              >
+                                {segment.text}
+                              </mark>
+                            ) : (
+                              <span key={index}>{segment.text}</span>
+                            ),
+                          )}
+                        </p>
+                      )}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </Authenticated>
+  )
+}
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config'
+import tsConfigPaths from 'vite-tsconfig-paths'
+
+// Kept apart from vite.config.ts so tests don't load the app's server plugins
+export default defineConfig({
+  plugins: [
+    tsConfigPaths({
+      projects: ['./tsconfig.json'],
+    }),
+  ],
+  test: {
+    environment: 'node',
+  },
+})